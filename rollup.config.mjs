@@ -1,5 +1,6 @@
 import resolve from "@rollup/plugin-node-resolve";
 import commonjs from "@rollup/plugin-commonjs";
+import json from "@rollup/plugin-json";
 import typescript from "@rollup/plugin-typescript";
 import peerDepsExternal from "rollup-plugin-peer-deps-external";
 import postcss from "rollup-plugin-postcss";
@@ -28,6 +29,7 @@ export default {
     peerDepsExternal(),
     resolve(),
     commonjs(),
+    json(),
     typescript({ tsconfig: "./tsconfig.json" })
   ]
 };
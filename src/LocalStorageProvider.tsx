@@ -0,0 +1,62 @@
+import { createContext, ReactNode, useContext, useMemo } from "react";
+
+import {
+  LocalStorageDefaults,
+  LocalStorageOptions
+} from "./localStorage.types";
+import { LocalStorageManager, localStorageManager } from "./localStorage.utils";
+
+type LocalStorageContextValue = {
+  manager: LocalStorageManager;
+  defaults: LocalStorageDefaults;
+};
+
+const LocalStorageContext = createContext<LocalStorageContextValue>({
+  manager: localStorageManager,
+  defaults: {}
+});
+
+/**
+ * Scope every hook below it to a configured manager (prefix, version,
+ * onError, adapter) and default options such as TTL or encryption
+ */
+export function LocalStorageProvider({
+  manager = localStorageManager,
+  defaults = {},
+  children
+}: {
+  manager?: LocalStorageManager;
+  defaults?: LocalStorageDefaults;
+  children?: ReactNode;
+}) {
+  const value = useMemo(() => ({ manager, defaults }), [manager, defaults]);
+
+  return (
+    <LocalStorageContext.Provider value={value}>
+      {children}
+    </LocalStorageContext.Provider>
+  );
+}
+
+/**
+ * Get the manager and default options of the closest LocalStorageProvider
+ */
+export function useLocalStorageContext(): LocalStorageContextValue {
+  return useContext(LocalStorageContext);
+}
+
+/**
+ * Merge hook options over the provider defaults. An explicit `manager` option
+ * wins over the provider's manager.
+ */
+export function useResolvedOptions<T>(options: LocalStorageOptions<T>): {
+  manager: LocalStorageManager;
+  options: LocalStorageOptions<T>;
+} {
+  const context = useLocalStorageContext();
+
+  return {
+    manager: options.manager || context.manager,
+    options: { ...context.defaults, ...options }
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { ReactNode } from "react";
+import { act, renderHook } from "@testing-library/react";
+
+import {
+  LocalStorageManager,
+  LocalStorageProvider,
+  useLocalStorage,
+  useLocalStorageMultiple
+} from "../index";
+
+describe("LocalStorageProvider", () => {
+  const manager = new LocalStorageManager({ prefix: "app", version: "2.0.0" });
+  const defaults = { ttl: 60000 };
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <LocalStorageProvider manager={manager} defaults={defaults}>
+      {children}
+    </LocalStorageProvider>
+  );
+
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should scope keys and apply defaults", () => {
+    const { result } = renderHook(() => useLocalStorage("theme", "light"), {
+      wrapper
+    });
+
+    act(() => {
+      result.current[1].setValue("dark");
+    });
+
+    const stored = JSON.parse(window.localStorage.getItem("app:theme") || "");
+
+    expect(result.current[0]).toBe("dark");
+    expect(stored.version).toBe("2.0.0");
+    expect(stored.expiresAt).toBeGreaterThan(Date.now());
+    expect(window.localStorage.getItem("theme")).toBeNull();
+  });
+
+  it("should let hook options override defaults", () => {
+    const { result } = renderHook(
+      () => useLocalStorage("theme", "light", { ttl: undefined }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current[1].setValue("dark");
+    });
+
+    const stored = JSON.parse(window.localStorage.getItem("app:theme") || "");
+
+    expect(stored.expiresAt).toBeNull();
+  });
+
+  it("should let an explicit manager option win", () => {
+    const other = new LocalStorageManager({ prefix: "other" });
+    const { result } = renderHook(
+      () => useLocalStorage("theme", "light", { manager: other }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current[1].setValue("dark");
+    });
+
+    expect(window.localStorage.getItem("other:theme")).not.toBeNull();
+    expect(window.localStorage.getItem("app:theme")).toBeNull();
+  });
+
+  it("should scope useLocalStorageMultiple", () => {
+    const { result } = renderHook(
+      () => useLocalStorageMultiple({ a: 1, b: 2 }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current.setValue("a", 10);
+    });
+
+    expect(window.localStorage.getItem("app:a")).toContain("10");
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { renderHook } from "@testing-library/react";
+
+import {
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  createSessionStorageAdapter
+} from "../localStorage.adapters";
+import { LocalStorageManager } from "../localStorage.utils";
+import { useLocalStorage } from "../useLocalStorage";
+
+describe("storage adapters", () => {
+  describe("createMemoryStorageAdapter", () => {
+    it("should store, read and remove values", () => {
+      const adapter = createMemoryStorageAdapter({ seeded: "1" });
+
+      adapter.setItem("key", "value");
+
+      expect(adapter.isAvailable()).toBe(true);
+      expect(adapter.getItem("key")).toBe("value");
+      expect(adapter.keys()).toEqual(["seeded", "key"]);
+
+      adapter.removeItem("key");
+
+      expect(adapter.getItem("key")).toBeNull();
+    });
+  });
+
+  describe("createSessionStorageAdapter", () => {
+    beforeEach(() => {
+      window.sessionStorage.clear();
+    });
+
+    it("should read and write window.sessionStorage", () => {
+      const adapter = createSessionStorageAdapter();
+
+      adapter.setItem("key", "value");
+
+      expect(adapter.name).toBe("sessionStorage");
+      expect(window.sessionStorage.getItem("key")).toBe("value");
+      expect(adapter.keys()).toEqual(["key"]);
+    });
+  });
+
+  describe("blocked storage", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should treat storage that throws on access as unavailable", () => {
+      jest.spyOn(window, "localStorage", "get").mockImplementation(() => {
+        throw new DOMException("Access is denied", "SecurityError");
+      });
+
+      const adapter = createLocalStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+
+      expect(adapter.isAvailable()).toBe(false);
+      expect(adapter.keys()).toEqual([]);
+      expect(manager.getItem("key")).toBeNull();
+      expect(manager.setItem("key", "value", {})).toBe("unavailable");
+    });
+
+    it("should render the initial value from useLocalStorage", () => {
+      jest.spyOn(window, "localStorage", "get").mockImplementation(() => {
+        throw new DOMException("Access is denied", "SecurityError");
+      });
+
+      const { result } = renderHook(() => useLocalStorage("key", "init"));
+
+      expect(result.current[0]).toBe("init");
+    });
+  });
+
+  describe("LocalStorageManager with adapter", () => {
+    it("should keep the TTL envelope and prefix on a custom adapter", () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ prefix: "app", adapter });
+
+      expect(manager.setItem("user", { name: "Ana" }, { ttl: 1000 })).toBe(
+        true
+      );
+
+      const stored = JSON.parse(adapter.getItem("app:user") as string);
+
+      expect(stored.value).toEqual({ name: "Ana" });
+      expect(stored.expiresAt).toBeGreaterThan(Date.now());
+      expect(manager.getItem("user")).toEqual({ name: "Ana" });
+      expect(manager.getAllKeys()).toEqual(["user"]);
+    });
+
+    it("should round-trip encrypted values", () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+      const options = { autoEncrypt: true, secretKey: "secret" };
+
+      manager.setItem("token", "abc", options);
+
+      expect(adapter.getItem("token")).not.toContain("abc");
+      expect(manager.getItem("token", options)).toBe("abc");
+    });
+
+    it("should clear only prefixed keys", () => {
+      const adapter = createMemoryStorageAdapter({ other: "keep" });
+      const manager = new LocalStorageManager({ prefix: "app", adapter });
+
+      manager.setItem("a", 1, {});
+      manager.clear();
+
+      expect(adapter.keys()).toEqual(["other"]);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { webcrypto } from "crypto";
+import { TextDecoder, TextEncoder } from "util";
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import {
+  BACKUP_FORMAT,
+  computeChecksum,
+  LIBRARY_VERSION
+} from "../localStorage.backup";
+import { LocalStorageManager } from "../localStorage.utils";
+
+// jsdom doesn't implement crypto.subtle or the encoding API
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+Object.defineProperty(globalThis, "crypto", {
+  value: webcrypto,
+  configurable: true
+});
+
+describe("backup and restore", () => {
+  const createManager = (data: Record<string, string> = {}) => {
+    const adapter = createMemoryStorageAdapter(data);
+    const onError = jest.fn();
+    const manager = new LocalStorageManager({
+      prefix: "app",
+      adapter,
+      onError
+    });
+
+    return { adapter, manager, onError };
+  };
+
+  describe("exportBackup", () => {
+    it("should only export the manager's entries with a manifest", async () => {
+      const { adapter, manager } = createManager({ foreign: "value" });
+      manager.setItem("user", { name: "Ana" }, { ttl: 60000 });
+      manager.setItem("theme", "dark", {});
+
+      const backup = JSON.parse(await manager.exportBackup());
+
+      expect(backup.manifest).toEqual({
+        format: BACKUP_FORMAT,
+        libraryVersion: LIBRARY_VERSION,
+        version: "1.0.0",
+        prefix: "app",
+        createdAt: expect.any(Number),
+        keyCount: 2,
+        checksum: expect.stringMatching(/^[0-9a-f]{64}$/),
+        encrypted: false
+      });
+      expect(backup.entries).toEqual({
+        user: adapter.getItem("app:user"),
+        theme: adapter.getItem("app:theme")
+      });
+    });
+
+    it("should export only the given keys", async () => {
+      const { manager } = createManager();
+      manager.setItem("user", "Ana", {});
+      manager.setItem("theme", "dark", {});
+
+      const backup = JSON.parse(await manager.exportBackup({ keys: ["user"] }));
+
+      expect(Object.keys(backup.entries)).toEqual(["user"]);
+    });
+
+    it("should encrypt the whole backup with a passphrase", async () => {
+      const source = createManager();
+      source.manager.setItem("user", { name: "Ana" }, {});
+
+      const json = await source.manager.exportBackup({ passphrase: "secret" });
+
+      expect(json).not.toContain("Ana");
+      expect(JSON.parse(json).manifest.encrypted).toBe(true);
+
+      const target = createManager();
+      const report = await target.manager.importBackup(json, {
+        passphrase: "secret"
+      });
+
+      expect(report.imported).toEqual(["user"]);
+      expect(target.manager.getItem("user")).toEqual({ name: "Ana" });
+    });
+
+    it("should checksum the encrypted payload, not the entries", async () => {
+      const { manager } = createManager();
+      manager.setItem("user", { name: "Ana" }, {});
+      const entries = JSON.parse(await manager.exportBackup()).entries;
+
+      const backup = JSON.parse(
+        await manager.exportBackup({ passphrase: "secret" })
+      );
+
+      expect(backup.manifest.checksum).toBe(computeChecksum(backup.payload));
+      expect(backup.manifest.checksum).not.toBe(computeChecksum(entries));
+    });
+  });
+
+  describe("importBackup", () => {
+    const exportFrom = async (entries: Record<string, number>) => {
+      const { manager } = createManager();
+
+      Object.entries(entries).forEach(([key, createdAt]) => {
+        jest.spyOn(Date, "now").mockReturnValueOnce(createdAt);
+        manager.setItem(key, `backup-${key}`, {});
+      });
+
+      return manager.exportBackup();
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should keep metadata and write under the target prefix", async () => {
+      const json = await exportFrom({ user: 1000 });
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ prefix: "restored", adapter });
+
+      await manager.importBackup(json);
+
+      expect(manager.getItem("user")).toBe("backup-user");
+      expect(manager.getItemMetadata("user")?.createdAt).toBe(1000);
+    });
+
+    it("should apply the import strategies", async () => {
+      const json = await exportFrom({ older: 1000, newer: 3000, fresh: 1000 });
+
+      const run = async (
+        strategy: "overwrite" | "skip-existing" | "newest-wins"
+      ) => {
+        const { manager } = createManager();
+
+        jest.spyOn(Date, "now").mockReturnValue(2000);
+        manager.setItem("older", "local", {});
+        manager.setItem("newer", "local", {});
+        jest.restoreAllMocks();
+
+        const report = await manager.importBackup(json, { strategy });
+
+        return {
+          imported: report.imported.sort(),
+          skipped: report.skipped.sort()
+        };
+      };
+
+      expect(await run("overwrite")).toEqual({
+        imported: ["fresh", "newer", "older"],
+        skipped: []
+      });
+      expect(await run("skip-existing")).toEqual({
+        imported: ["fresh"],
+        skipped: ["newer", "older"]
+      });
+      expect(await run("newest-wins")).toEqual({
+        imported: ["fresh", "newer"],
+        skipped: ["older"]
+      });
+    });
+
+    it("should report without writing on a dry run", async () => {
+      const json = await exportFrom({ user: 1000 });
+      const { adapter, manager } = createManager();
+
+      const report = await manager.importBackup(json, { dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.imported).toEqual(["user"]);
+      expect(adapter.keys()).toEqual([]);
+    });
+
+    it("should reject backups whose checksum doesn't match", async () => {
+      const backup = JSON.parse(await exportFrom({ user: 1000 }));
+      backup.entries.user = backup.entries.user.replace("backup", "edited");
+
+      const { adapter, manager, onError } = createManager();
+      const report = await manager.importBackup(JSON.stringify(backup));
+
+      expect(report.error?.message).toBe("Backup checksum mismatch");
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "INTEGRITY_ERROR" })
+      );
+      expect(adapter.keys()).toEqual([]);
+    });
+
+    it("should reject data that isn't a backup", async () => {
+      const { manager, onError } = createManager();
+
+      const report = await manager.importBackup(JSON.stringify({ a: "b" }));
+
+      expect(report.error).toBeInstanceOf(Error);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "DESERIALIZATION_ERROR" })
+      );
+    });
+  });
+});
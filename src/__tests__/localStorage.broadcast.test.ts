@@ -0,0 +1,133 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import { LocalStorageChangeMessage } from "../localStorage.types";
+import { LocalStorageManager } from "../localStorage.utils";
+
+// Minimal in-process BroadcastChannel: delivers to every other instance with
+// the same name
+class FakeBroadcastChannel extends EventTarget {
+  static channels = new Set<FakeBroadcastChannel>();
+
+  constructor(public name: string) {
+    super();
+    FakeBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        channel.dispatchEvent(new MessageEvent("message", { data }));
+      }
+    });
+  }
+
+  close() {
+    FakeBroadcastChannel.channels.delete(this);
+  }
+}
+
+describe("BroadcastChannel transport", () => {
+  const originalBroadcastChannel = globalThis.BroadcastChannel;
+
+  beforeEach(() => {
+    FakeBroadcastChannel.channels.clear();
+    globalThis.BroadcastChannel =
+      FakeBroadcastChannel as unknown as typeof BroadcastChannel;
+  });
+
+  afterEach(() => {
+    globalThis.BroadcastChannel = originalBroadcastChannel;
+  });
+
+  const remoteMessage = (
+    overrides: Partial<LocalStorageChangeMessage> = {}
+  ): LocalStorageChangeMessage => ({
+    type: "set",
+    key: "draft",
+    prefix: "app",
+    storageArea: "memory",
+    version: "1.0.0",
+    originId: "other-tab",
+    timestamp: Date.now(),
+    ...overrides
+  });
+
+  it("should post structured messages on writes", () => {
+    const received: LocalStorageChangeMessage[] = [];
+    const observer = new BroadcastChannel("react-hooks-localstorage");
+    observer.addEventListener("message", (e) => received.push(e.data));
+
+    const manager = new LocalStorageManager({
+      prefix: "app",
+      version: "2.0.0",
+      adapter: createMemoryStorageAdapter(),
+      broadcastChannel: true
+    });
+
+    manager.setItem("draft", "secret", { autoEncrypt: true, secretKey: "k" });
+    manager.removeItem("draft");
+
+    expect(received).toEqual([
+      expect.objectContaining({
+        type: "set",
+        key: "draft",
+        prefix: "app",
+        storageArea: "memory",
+        version: "2.0.0"
+      }),
+      expect.objectContaining({ type: "remove", key: "draft" })
+    ]);
+    expect(JSON.stringify(received)).not.toContain("secret");
+  });
+
+  it("should notify subscribers of changes from other tabs", () => {
+    const manager = new LocalStorageManager({
+      prefix: "app",
+      adapter: createMemoryStorageAdapter(),
+      broadcastChannel: "custom-channel"
+    });
+    const listener = jest.fn();
+    const remote = new BroadcastChannel("custom-channel");
+
+    manager.subscribe(listener);
+    remote.postMessage(remoteMessage());
+    remote.postMessage(remoteMessage({ prefix: "other" }));
+    remote.postMessage(remoteMessage({ storageArea: "localStorage" }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("draft");
+  });
+
+  it("should not broadcast when syncAcrossTabs is false", () => {
+    const received = jest.fn();
+    const observer = new BroadcastChannel("react-hooks-localstorage");
+    observer.addEventListener("message", received);
+
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter(),
+      broadcastChannel: true
+    });
+
+    manager.setItem("draft", "value", { syncAcrossTabs: false });
+
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it("should fall back to storage events without BroadcastChannel", () => {
+    // @ts-expect-error - Testing missing BroadcastChannel
+    delete globalThis.BroadcastChannel;
+
+    const manager = new LocalStorageManager({ broadcastChannel: true });
+    const listener = jest.fn();
+
+    manager.subscribe(listener);
+    window.dispatchEvent(
+      new StorageEvent("storage", { key: "draft", newValue: "x" })
+    );
+
+    expect(listener).toHaveBeenCalledWith("draft");
+  });
+});
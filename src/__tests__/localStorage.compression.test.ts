@@ -0,0 +1,116 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook } from "@testing-library/react";
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import { LZ_UTF16_CODEC } from "../localStorage.compression";
+import { decryptValue } from "../localStorage.crypto";
+import { LocalStorageManager } from "../localStorage.utils";
+import { useLocalStorageCompressed } from "../useLocalStorageSpecialized";
+
+describe("compression", () => {
+  const largeValue = {
+    rows: Array.from({ length: 200 }, (_, i) => ({ id: i, label: "row ✓" }))
+  };
+
+  describe("LocalStorageManager with compress", () => {
+    it("should compress values above the threshold", () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+
+      manager.setItem("report", largeValue, { compress: true });
+
+      const raw = adapter.getItem("report") as string;
+      const stored = JSON.parse(raw);
+
+      expect(stored.codec).toBe(LZ_UTF16_CODEC);
+      expect(raw.length).toBeLessThan(JSON.stringify(largeValue).length);
+      expect(manager.getItem("report")).toEqual(largeValue);
+    });
+
+    it("should store small values uncompressed", () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+
+      manager.setItem("small", { a: 1 }, { compress: { threshold: 100 } });
+
+      const stored = JSON.parse(adapter.getItem("small") as string);
+
+      expect(stored.codec).toBeUndefined();
+      expect(stored.value).toEqual({ a: 1 });
+    });
+
+    it("should compose with autoEncrypt", () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+      const options = { compress: true, autoEncrypt: true, secretKey: "key" };
+
+      manager.setItem("report", largeValue, options);
+
+      // Compression happens before encryption
+      const envelope = JSON.parse(
+        decryptValue<string>(adapter.getItem("report") as string, "key")
+      );
+
+      expect(envelope.codec).toBe(LZ_UTF16_CODEC);
+      expect(manager.getItem("report", options)).toEqual(largeValue);
+    });
+
+    it("should keep migrated entries compressed", () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+      const migrations = {
+        "1.0.0": { to: "2.0.0", migrate: (value: unknown) => value }
+      };
+
+      manager.setItem("report", largeValue, { compress: true });
+      manager.getItem("report", {
+        compress: true,
+        version: "2.0.0",
+        migrations
+      });
+
+      const stored = JSON.parse(adapter.getItem("report") as string);
+
+      expect(stored.version).toBe("2.0.0");
+      expect(stored.codec).toBe(LZ_UTF16_CODEC);
+    });
+  });
+
+  describe("useLocalStorageCompressed", () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    it("should round-trip non-Latin1 data", () => {
+      const notes = "日本語のメモ 🚀 ".repeat(50);
+      const { result } = renderHook(() =>
+        useLocalStorageCompressed("notes", "", { threshold: 0 })
+      );
+
+      act(() => {
+        result.current[1].setValue(notes);
+      });
+
+      const stored = JSON.parse(window.localStorage.getItem("notes") as string);
+
+      expect(stored.codec).toBe(LZ_UTF16_CODEC);
+      expect(result.current[0]).toBe(notes);
+    });
+
+    it("should read entries written by the legacy base64 format", () => {
+      window.localStorage.setItem(
+        "notes",
+        btoa(JSON.stringify({ value: "legacy", expiresAt: null, createdAt: 0 }))
+      );
+
+      const { result } = renderHook(() =>
+        useLocalStorageCompressed("notes", "")
+      );
+
+      expect(result.current[0]).toBe("legacy");
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { webcrypto } from "crypto";
+import { TextDecoder, TextEncoder } from "util";
+import { act, renderHook, waitFor } from "@testing-library/react";
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import {
+  decryptValue,
+  decryptWithWebCrypto,
+  encryptValue,
+  encryptWithWebCrypto,
+  isWebCryptoPayload
+} from "../localStorage.crypto";
+import { LocalStorageOptions } from "../localStorage.types";
+import { LocalStorageManager } from "../localStorage.utils";
+import { useLocalStorage } from "../useLocalStorage";
+import { useLocalStorageArray } from "../useLocalStorageAdvanced";
+
+// jsdom doesn't implement crypto.subtle or the encoding API
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+Object.defineProperty(globalThis, "crypto", {
+  value: webcrypto,
+  configurable: true
+});
+
+describe("Web Crypto encryption", () => {
+  // Low iteration count keeps the tests fast
+  const options: LocalStorageOptions<{ token: string }> = {
+    autoEncrypt: true,
+    secretKey: "passphrase",
+    encryption: { algorithm: "aes-gcm", iterations: 1000 }
+  };
+
+  describe("encryptWithWebCrypto", () => {
+    it("should round-trip with a fresh salt and IV per call", async () => {
+      const first = await encryptWithWebCrypto("hello", "key", 1000);
+      const second = await encryptWithWebCrypto("hello", "key", 1000);
+
+      expect(isWebCryptoPayload(first)).toBe(true);
+      expect(first).not.toBe(second);
+      expect(await decryptWithWebCrypto(first, "key")).toBe("hello");
+    });
+
+    it("should reject a wrong key or a modified payload", async () => {
+      const payload = await encryptWithWebCrypto("hello", "key", 1000);
+      const tampered =
+        payload.slice(0, -4) + (payload.endsWith("AAAA") ? "BBBB" : "AAAA");
+
+      await expect(decryptWithWebCrypto(payload, "other")).rejects.toThrow(
+        "Failed to decrypt data"
+      );
+      await expect(decryptWithWebCrypto(tampered, "key")).rejects.toThrow(
+        "Failed to decrypt data"
+      );
+    });
+  });
+
+  describe("LocalStorageManager", () => {
+    it("should write and read AES-GCM entries asynchronously", async () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+
+      expect(
+        await manager.setItemAsync("session", { token: "abc" }, options)
+      ).toBe(true);
+
+      const raw = adapter.getItem("session") as string;
+
+      expect(isWebCryptoPayload(raw)).toBe(true);
+      expect(raw).not.toContain("abc");
+      expect(await manager.getItemAsync("session", options)).toEqual({
+        token: "abc"
+      });
+    });
+
+    it("should read legacy crypto-js entries", async () => {
+      const envelope = {
+        value: { token: "legacy" },
+        expiresAt: null,
+        createdAt: Date.now(),
+        version: "1.0.0"
+      };
+      const adapter = createMemoryStorageAdapter({
+        session: encryptValue(JSON.stringify(envelope), "passphrase")
+      });
+      const manager = new LocalStorageManager({ adapter });
+
+      expect(await manager.getItemAsync("session", options)).toEqual({
+        token: "legacy"
+      });
+    });
+
+    it("should refuse synchronous AES-GCM writes", () => {
+      const onError = jest.fn();
+      const manager = new LocalStorageManager({
+        adapter: createMemoryStorageAdapter(),
+        onError
+      });
+
+      expect(manager.setItem("session", { token: "abc" }, options)).toBe(false);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "SERIALIZATION_ERROR" })
+      );
+    });
+  });
+
+  describe("rotateEncryptionKey", () => {
+    const legacy = { autoEncrypt: true, secretKey: "old-key" };
+
+    it("should re-encrypt entries and keep their envelope", async () => {
+      const adapter = createMemoryStorageAdapter({ foreign: "plain" });
+      const manager = new LocalStorageManager({ prefix: "app", adapter });
+
+      manager.setItem("legacy", { token: "a" }, { ...legacy, ttl: 60000 });
+      await manager.setItemAsync(
+        "modern",
+        { token: "b" },
+        { ...options, secretKey: "old-key" }
+      );
+      manager.setItem("plain", { token: "c" }, {});
+
+      const before = adapter.getItem("app:legacy");
+      const result = await manager.rotateEncryptionKey({
+        oldKey: "old-key",
+        newKey: "new-key"
+      });
+
+      expect(result.rotated.sort()).toEqual(["legacy", "modern"]);
+      expect(result.skipped).toEqual(["plain"]);
+      expect(result.failed).toEqual([]);
+      expect(adapter.getItem("app:legacy")).not.toBe(before);
+      expect(adapter.getItem("foreign")).toBe("plain");
+      expect(isWebCryptoPayload(adapter.getItem("app:modern") || "")).toBe(
+        true
+      );
+
+      expect(
+        manager.getItem("legacy", { autoEncrypt: true, secretKey: "new-key" })
+      ).toEqual({ token: "a" });
+
+      const envelope = JSON.parse(
+        decryptValue<string>(adapter.getItem("app:legacy") as string, "new-key")
+      );
+
+      expect(envelope.expiresAt).toBeGreaterThan(Date.now());
+      expect(
+        await manager.getItemAsync("modern", {
+          ...options,
+          secretKey: "new-key"
+        })
+      ).toEqual({ token: "b" });
+    });
+
+    it("should report failures per key and skip rotated entries", async () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+
+      manager.setItem("user:done", 1, { autoEncrypt: true, secretKey: "new" });
+      manager.setItem("user:other", 2, {
+        autoEncrypt: true,
+        secretKey: "unknown"
+      });
+      manager.setItem("settings", 3, legacy);
+
+      const result = await manager.rotateEncryptionKey({
+        oldKey: "old-key",
+        newKey: "new",
+        prefix: "user:"
+      });
+
+      expect(result.rotated).toEqual([]);
+      expect(result.skipped).toEqual(["user:done"]);
+      expect(result.failed).toEqual([
+        { key: "user:other", error: expect.any(Error) }
+      ]);
+      expect(manager.getItem("settings", legacy)).toBe(3);
+    });
+
+    it("should read with fallback keys during a rotation", () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+
+      manager.setItem("session", "value", legacy);
+
+      expect(
+        manager.getItem("session", {
+          autoEncrypt: true,
+          secretKey: "new-key",
+          fallbackSecretKeys: ["old-key"]
+        })
+      ).toBe("value");
+    });
+  });
+
+  describe("useLocalStorage", () => {
+    it("should decrypt stored entries after mount", async () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+      await manager.setItemAsync("session", { token: "stored" }, options);
+
+      const { result } = renderHook(() =>
+        useLocalStorage("session", { token: "" }, { ...options, manager })
+      );
+
+      expect(result.current[0]).toEqual({ token: "" });
+
+      await waitFor(() =>
+        expect(result.current[0]).toEqual({ token: "stored" })
+      );
+    });
+
+    it("should apply functional updates to the decrypted value", async () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+      const arrayOptions: LocalStorageOptions<number[]> = {
+        autoEncrypt: true,
+        secretKey: "passphrase",
+        encryption: options.encryption,
+        manager
+      };
+      await manager.setItemAsync("arr", [1, 2], arrayOptions);
+
+      const { result } = renderHook(() =>
+        useLocalStorageArray<number>("arr", [], arrayOptions)
+      );
+
+      expect(result.current.isLoading).toBe(true);
+
+      act(() => {
+        result.current.addItem(3);
+        result.current.addItem(4);
+      });
+
+      await waitFor(() => expect(result.current.array).toEqual([1, 2, 3, 4]));
+      expect(result.current.isLoading).toBe(false);
+
+      await waitFor(async () =>
+        expect(await manager.getItemAsync("arr", arrayOptions)).toEqual([
+          1, 2, 3, 4
+        ])
+      );
+    });
+
+    it("should show new values while they are encrypted", async () => {
+      const adapter = createMemoryStorageAdapter();
+      const manager = new LocalStorageManager({ adapter });
+
+      const { result } = renderHook(() =>
+        useLocalStorage("session", { token: "" }, { ...options, manager })
+      );
+
+      act(() => {
+        result.current[1].setValue({ token: "first" });
+        result.current[1].setValue({ token: "second" });
+      });
+
+      expect(result.current[0]).toEqual({ token: "second" });
+
+      await waitFor(() =>
+        expect(isWebCryptoPayload(adapter.getItem("session") || "")).toBe(true)
+      );
+
+      expect(await manager.getItemAsync("session", options)).toEqual({
+        token: "second"
+      });
+      expect(result.current[0]).toEqual({ token: "second" });
+    });
+  });
+});
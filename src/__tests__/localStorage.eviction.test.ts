@@ -0,0 +1,193 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import { selectEvictions } from "../localStorage.eviction";
+import { StorageAdapter } from "../localStorage.types";
+import { LocalStorageManager } from "../localStorage.utils";
+
+// Memory adapter that throws like a browser once `capacity` characters are used
+function createLimitedAdapter(capacity: number): StorageAdapter {
+  const adapter = createMemoryStorageAdapter();
+
+  const used = (exceptKey: string) =>
+    adapter
+      .keys()
+      .filter((key) => key !== exceptKey)
+      .reduce(
+        (total, key) =>
+          total + key.length + (adapter.getItem(key) || "").length,
+        0
+      );
+
+  return {
+    ...adapter,
+    setItem: (key, value) => {
+      if (used(key) + key.length + value.length > capacity) {
+        const error = new Error("The quota has been exceeded");
+        error.name = "QuotaExceededError";
+        throw error;
+      }
+
+      adapter.setItem(key, value);
+    }
+  };
+}
+
+describe("eviction", () => {
+  const payload = "x".repeat(100);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should report QUOTA_EXCEEDED without an eviction strategy", () => {
+    const onError = jest.fn();
+    const manager = new LocalStorageManager({
+      adapter: createLimitedAdapter(450),
+      onError
+    });
+
+    expect(manager.setItem("a", payload, {})).toBe(true);
+    expect(manager.setItem("b", payload, {})).toBe(true);
+    expect(manager.setItem("c", payload, {})).toBe(false);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "QUOTA_EXCEEDED" })
+    );
+  });
+
+  it("should evict the least recently used entry and retry the write", () => {
+    const onEvict = jest.fn();
+    const manager = new LocalStorageManager({
+      adapter: createLimitedAdapter(450),
+      eviction: { strategy: "lru", onEvict }
+    });
+
+    manager.setItem("a", payload, {});
+    jest.advanceTimersByTime(1000);
+    manager.setItem("b", payload, {});
+    jest.advanceTimersByTime(1000);
+    manager.getItem("a");
+    jest.advanceTimersByTime(1000);
+
+    expect(manager.setItem("c", payload, {})).toBe(true);
+    expect(onEvict).toHaveBeenCalledWith(["b"]);
+    expect(manager.getAllKeys().sort()).toEqual(["a", "c"]);
+  });
+
+  it("should evict the oldest entry", () => {
+    const onEvict = jest.fn();
+    const manager = new LocalStorageManager({
+      adapter: createLimitedAdapter(450),
+      eviction: { strategy: "oldest", onEvict }
+    });
+
+    manager.setItem("a", payload, {});
+    jest.advanceTimersByTime(1000);
+    manager.setItem("b", payload, {});
+    manager.getItem("a");
+
+    manager.setItem("c", payload, {});
+
+    expect(onEvict).toHaveBeenCalledWith(["a"]);
+  });
+
+  it("should evict the entry closest to expiring", () => {
+    const onEvict = jest.fn();
+    const manager = new LocalStorageManager({
+      adapter: createLimitedAdapter(450),
+      eviction: { strategy: "soonest-expiring", onEvict }
+    });
+
+    manager.setItem("a", payload, {});
+    manager.setItem("b", payload, { ttl: 60000 });
+
+    manager.setItem("c", payload, {});
+
+    expect(onEvict).toHaveBeenCalledWith(["b"]);
+  });
+
+  it("should evict the lowest priority entry", () => {
+    const onEvict = jest.fn();
+    const manager = new LocalStorageManager({
+      adapter: createLimitedAdapter(450),
+      eviction: { strategy: "priority", onEvict }
+    });
+
+    manager.setItem("a", payload, { priority: 1 });
+    manager.setItem("b", payload, { priority: 5 });
+
+    manager.setItem("c", payload, { priority: 2 });
+
+    expect(onEvict).toHaveBeenCalledWith(["a"]);
+  });
+
+  it("should never evict keys owned by someone else", () => {
+    const adapter = createLimitedAdapter(450);
+    const onError = jest.fn();
+    const onEvict = jest.fn();
+    const foreign = "y".repeat(300);
+    adapter.setItem("foreign", foreign);
+
+    const manager = new LocalStorageManager({
+      adapter,
+      eviction: { strategy: "lru", onEvict },
+      onError
+    });
+
+    expect(manager.setItem("a", payload, {})).toBe(false);
+    expect(adapter.getItem("foreign")).toBe(foreign);
+    expect(onEvict).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "QUOTA_EXCEEDED" })
+    );
+  });
+
+  describe("selectEvictions", () => {
+    const candidate = (key: string, extra = {}) => ({
+      key,
+      size: 10,
+      createdAt: 0,
+      expiresAt: null,
+      lastAccessedAt: 0,
+      priority: 0,
+      ...extra
+    });
+
+    it("should always include expired entries first", () => {
+      const now = Date.now();
+
+      expect(
+        selectEvictions(
+          [
+            candidate("fresh", { lastAccessedAt: -1 }),
+            candidate("expired", { expiresAt: now - 1, lastAccessedAt: 5 })
+          ],
+          "lru",
+          10,
+          now
+        )
+      ).toEqual(["expired"]);
+    });
+
+    it("should select entries until enough space is freed", () => {
+      expect(
+        selectEvictions(
+          [
+            candidate("a", { createdAt: 1 }),
+            candidate("b", { createdAt: 2 }),
+            candidate("c", { createdAt: 3 })
+          ],
+          "oldest",
+          15
+        )
+      ).toEqual(["a", "b"]);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { createRoot } from "react-dom/client";
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import { LocalStorageManager } from "../localStorage.utils";
+import { useLocalStorage } from "../useLocalStorage";
+
+describe("sliding TTL", () => {
+  const options = { ttl: 60000, slidingTtl: true };
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should extend the expiry on reads", () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    manager.setItem("filter", "open", options);
+
+    now += 50000;
+
+    expect(manager.getItem("filter", options)).toBe("open");
+    expect(manager.getItemMetadata("filter")?.expiresAt).toBe(now + 60000);
+
+    now += 50000;
+
+    expect(manager.getItem("filter", options)).toBe("open");
+  });
+
+  it("should not renew more often than the renewal interval", () => {
+    const adapter = createMemoryStorageAdapter();
+    const manager = new LocalStorageManager({ adapter });
+    const throttled = { ...options, slidingTtl: { renewInterval: 10000 } };
+    manager.setItem("filter", "open", throttled);
+    const setItem = jest.spyOn(adapter, "setItem");
+
+    now += 5000;
+    manager.getItem("filter", throttled);
+
+    expect(setItem).not.toHaveBeenCalled();
+
+    now += 5000;
+    manager.getItem("filter", throttled);
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it("should return the value when the renewal can't be written", () => {
+    const adapter = createMemoryStorageAdapter();
+    const onError = jest.fn();
+    const manager = new LocalStorageManager({ adapter, onError });
+    manager.setItem("filter", "open", options);
+    jest.spyOn(adapter, "setItem").mockImplementationOnce(() => {
+      const error = new Error("Quota exceeded");
+      error.name = "QuotaExceededError";
+      throw error;
+    });
+
+    now += 50000;
+
+    expect(manager.getItem("filter", options)).toBe("open");
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "QUOTA_EXCEEDED" })
+    );
+  });
+
+  it("should write the renewal and the migration in order", async () => {
+    const adapter = createMemoryStorageAdapter();
+    const onError = jest.fn();
+    const manager = new LocalStorageManager({ adapter, onError });
+    const migrating = {
+      ...options,
+      version: "2.0.0",
+      migrations: {
+        "1.0.0": { to: "2.0.0", migrate: (value: unknown) => [value] }
+      }
+    };
+    manager.setItem("filter", "open", { ...options, version: "1.0.0" });
+    jest.spyOn(adapter, "setItem").mockImplementationOnce(() => {
+      const error = new Error("Quota exceeded");
+      error.name = "QuotaExceededError";
+      throw error;
+    });
+
+    now += 50000;
+
+    await expect(manager.getItemAsync("filter", migrating)).resolves.toEqual([
+      "open"
+    ]);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(manager.getItemMetadata("filter")).toEqual(
+      expect.objectContaining({ version: "2.0.0", expiresAt: now + 60000 })
+    );
+  });
+
+  it("should leave fixed TTLs alone", () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    manager.setItem("token", "abc", { ttl: 60000 });
+
+    now += 50000;
+    manager.getItem("token", { ttl: 60000 });
+    now += 20000;
+
+    expect(manager.getItem("token", { ttl: 60000 })).toBeNull();
+  });
+
+  it("should renew on hook reads and report the remaining time", async () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    const { result, rerender } = renderHook(() =>
+      useLocalStorage("filter", "all", { ...options, manager })
+    );
+
+    act(() => {
+      result.current[1].setValue("open");
+    });
+
+    now += 30000;
+
+    expect(result.current[1].getRemainingTime()).toBe(30000);
+
+    // Renewed after the render that read the value
+    await act(async () => {
+      rerender();
+    });
+
+    expect(result.current[0]).toBe("open");
+    expect(result.current[1].getRemainingTime()).toBe(60000);
+  });
+});
+
+describe("expiration events", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should report expired entries with their last value", () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    const onExpire = jest.fn();
+    const listener = jest.fn();
+    manager.onExpire(onExpire);
+    manager.subscribe(listener);
+    manager.setItem("draft", { text: "hello" }, { ttl: 1000, compress: true });
+
+    now += 2000;
+
+    expect(manager.getItem("draft")).toBeNull();
+    expect(onExpire).toHaveBeenCalledWith("draft", { text: "hello" });
+    expect(listener).toHaveBeenLastCalledWith("draft");
+  });
+
+  it("should report entries removed by cleanupExpiredItems", () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    const onExpire = jest.fn();
+    manager.onExpire(onExpire);
+    manager.setItem("a", 1, { ttl: 1000 });
+    manager.setItem("b", 2, {});
+
+    now += 2000;
+
+    expect(manager.cleanupExpiredItems()).toBe(1);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(onExpire).toHaveBeenCalledWith("a", 1);
+  });
+
+  it("should call the hook's onExpire and reset to the initial value", () => {
+    jest.restoreAllMocks();
+    jest.useFakeTimers();
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    const onExpire = jest.fn();
+    const { result } = renderHook(() =>
+      useLocalStorage<string>("draft", "", { ttl: 1000, manager, onExpire })
+    );
+
+    act(() => {
+      result.current[1].setValue("unsaved");
+    });
+
+    act(() => {
+      jest.advanceTimersByTime(1100);
+    });
+
+    expect(onExpire).toHaveBeenCalledWith("draft", "unsaved");
+    expect(result.current[0]).toBe("");
+
+    jest.useRealTimers();
+  });
+
+  it("should call onExpire for an entry that expired before mount", async () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    const onExpire = jest.fn();
+    manager.setItem("draft", "unsaved", { ttl: 1000 });
+
+    now += 2000;
+
+    function Draft() {
+      const [draft] = useLocalStorage("draft", "", {
+        ttl: 1000,
+        manager,
+        onExpire
+      });
+
+      return <span>{draft}</span>;
+    }
+
+    // Outside act, effects run after the render-time read has expired the
+    // entry, as they do in the browser
+    const reactGlobal = globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean };
+    const actEnvironment = reactGlobal.IS_REACT_ACT_ENVIRONMENT;
+    reactGlobal.IS_REACT_ACT_ENVIRONMENT = false;
+
+    const container = document.createElement("div");
+    const root = createRoot(container);
+
+    try {
+      root.render(<Draft />);
+      await waitFor(() => expect(onExpire).toHaveBeenCalledTimes(1));
+    } finally {
+      root.unmount();
+      reactGlobal.IS_REACT_ACT_ENVIRONMENT = actEnvironment;
+    }
+
+    expect(onExpire).toHaveBeenCalledWith("draft", "unsaved");
+    expect(manager.getItem("draft")).toBeNull();
+  });
+});
+
+describe("expiration scheduler", () => {
+  const setVisibility = (state: DocumentVisibilityState) => {
+    Object.defineProperty(document, "visibilityState", {
+      value: state,
+      configurable: true
+    });
+    document.dispatchEvent(new Event("visibilitychange"));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    setVisibility("visible");
+    jest.useRealTimers();
+  });
+
+  it("should expire entries right after their TTL with one timer", () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    const onExpire = jest.fn();
+    manager.onExpire(onExpire);
+
+    manager.setItem("short", 1, { ttl: 1000 });
+    manager.setItem("long", 2, { ttl: 5000 });
+
+    expect(jest.getTimerCount()).toBe(1);
+
+    jest.advanceTimersByTime(1001);
+
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(onExpire).toHaveBeenCalledWith("short", 1);
+
+    jest.advanceTimersByTime(4000);
+
+    expect(onExpire).toHaveBeenCalledWith("long", 2);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("should follow entries that were renewed or removed", () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    const onExpire = jest.fn();
+    manager.onExpire(onExpire);
+
+    manager.setItem("renewed", 1, { ttl: 1000 });
+    manager.setItem("removed", 2, { ttl: 1000 });
+    jest.advanceTimersByTime(500);
+    manager.setItem("renewed", 1, { ttl: 1000 });
+    manager.removeItem("removed");
+    jest.advanceTimersByTime(600);
+
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(manager.getItem("renewed")).toBe(1);
+
+    jest.advanceTimersByTime(500);
+
+    expect(onExpire).toHaveBeenCalledWith("renewed", 1);
+  });
+
+  it("should pause while the document is hidden", () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    const onExpire = jest.fn();
+    manager.onExpire(onExpire);
+    manager.setItem("key", "value", { ttl: 1000 });
+
+    setVisibility("hidden");
+    jest.advanceTimersByTime(2000);
+
+    expect(jest.getTimerCount()).toBe(0);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    setVisibility("visible");
+
+    expect(onExpire).toHaveBeenCalledWith("key", "value");
+  });
+
+  it("should schedule existing entries with trackExpirations", () => {
+    const adapter = createMemoryStorageAdapter({
+      old: JSON.stringify({
+        value: "stored",
+        expiresAt: Date.now() + 1000,
+        createdAt: Date.now()
+      })
+    });
+    const manager = new LocalStorageManager({ adapter });
+    const onExpire = jest.fn();
+    manager.onExpire(onExpire);
+
+    manager.trackExpirations();
+    jest.advanceTimersByTime(1001);
+
+    expect(onExpire).toHaveBeenCalledWith("old", "stored");
+    expect(adapter.getItem("old")).toBeNull();
+  });
+});
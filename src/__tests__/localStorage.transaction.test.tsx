@@ -0,0 +1,146 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook } from "@testing-library/react";
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import { getLocalStorageStore } from "../localStorage.store";
+import { StorageAdapter } from "../localStorage.types";
+import { LocalStorageManager } from "../localStorage.utils";
+import { useLocalStorageMultiple } from "../useLocalStorageAdvanced";
+
+// Memory adapter that rejects writes to the given keys like a full storage
+function createFailingAdapter(failingKeys: string[]): StorageAdapter {
+  const adapter = createMemoryStorageAdapter();
+
+  return {
+    ...adapter,
+    setItem: (key, value) => {
+      if (failingKeys.includes(key)) {
+        const error = new Error("The quota has been exceeded");
+        error.name = "QuotaExceededError";
+        throw error;
+      }
+
+      adapter.setItem(key, value);
+    }
+  };
+}
+
+describe("transactions", () => {
+  it("should apply every operation with one notification", () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+    const listener = jest.fn();
+    manager.setItem("old", 1, {});
+    manager.subscribe(listener);
+
+    const result = manager.transaction((tx) => {
+      tx.set("a", 1);
+      tx.set("b", "two", { ttl: 1000 });
+      tx.remove("old");
+    });
+
+    expect(result).toBe(true);
+    expect(manager.getItem("a")).toBe(1);
+    expect(manager.getItem("b")).toBe("two");
+    expect(manager.getItemMetadata("b")?.expiresAt).not.toBeNull();
+    expect(manager.getItem("old")).toBeNull();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(null);
+  });
+
+  it("should dispatch one change event and notify each store once", () => {
+    const adapter = createMemoryStorageAdapter();
+    const manager = new LocalStorageManager({ prefix: "app", adapter });
+    const other = new LocalStorageManager({ prefix: "app", adapter });
+    const events = jest.fn();
+    const own = jest.fn();
+    const shared = jest.fn();
+    window.addEventListener("localStorageChange", events);
+    const unsubscribeOwn = getLocalStorageStore(manager, "a").subscribe(own);
+    const unsubscribeShared = getLocalStorageStore(other, "b").subscribe(
+      shared
+    );
+
+    manager.transaction((tx) => {
+      tx.set("a", 1);
+      tx.set("b", 2);
+    });
+
+    expect(events).toHaveBeenCalledTimes(1);
+    expect(events.mock.calls[0][0].detail).toEqual(
+      expect.objectContaining({
+        key: null,
+        keys: ["a", "b"],
+        storageKeys: ["app:a", "app:b"]
+      })
+    );
+    expect(own).toHaveBeenCalledTimes(1);
+    expect(shared).toHaveBeenCalledTimes(1);
+
+    unsubscribeOwn();
+    unsubscribeShared();
+    window.removeEventListener("localStorageChange", events);
+  });
+
+  it("should roll back every key when a write fails", () => {
+    const onError = jest.fn();
+    const manager = new LocalStorageManager({
+      adapter: createFailingAdapter(["c"]),
+      onError
+    });
+    const listener = jest.fn();
+    manager.setItem("a", "original", {});
+    manager.subscribe(listener);
+
+    const result = manager.transaction((tx) => {
+      tx.set("a", "changed");
+      tx.set("b", "new");
+      tx.set("c", "fails");
+    });
+
+    expect(result).toBe(false);
+    expect(manager.getItem("a")).toBe("original");
+    expect(manager.getItem("b")).toBeNull();
+    expect(listener).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "QUOTA_EXCEEDED" })
+    );
+  });
+
+  it("should write nothing when a value can't be serialized", () => {
+    const adapter = createMemoryStorageAdapter();
+    const manager = new LocalStorageManager({ adapter, onError: jest.fn() });
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    const result = manager.transaction((tx) => {
+      tx.set("a", 1);
+      tx.set("b", circular);
+    });
+
+    expect(result).toBe(false);
+    expect(adapter.keys()).toEqual([]);
+  });
+
+  it("should keep useLocalStorageMultiple state unchanged on failure", () => {
+    const manager = new LocalStorageManager({
+      adapter: createFailingAdapter(["b"]),
+      onError: jest.fn()
+    });
+
+    const { result } = renderHook(() =>
+      useLocalStorageMultiple({ a: 1, b: 2 }, { manager })
+    );
+
+    act(() => {
+      result.current.setValues({ a: 10, b: 20 });
+    });
+
+    expect(result.current.values).toEqual({ a: 1, b: 2 });
+    expect(manager.getItem("a")).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook, waitFor } from "@testing-library/react";
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import { LocalStorageManager } from "../localStorage.utils";
+import { useLocalStorageUsage } from "../useLocalStorageUsage";
+
+describe("storage usage", () => {
+  describe("LocalStorageManager.getStorageUsage", () => {
+    it("should report UTF-16 bytes per key, prefix and owner", () => {
+      const adapter = createMemoryStorageAdapter({
+        theme: "dark",
+        "other:token": "abc"
+      });
+      const manager = new LocalStorageManager({ prefix: "app", adapter });
+
+      manager.setItem("user", { name: "Ana" }, {});
+
+      const userBytes =
+        ("app:user".length + (adapter.getItem("app:user") as string).length) *
+        2;
+      const usage = manager.getStorageUsage();
+
+      expect(usage.byKey).toEqual({
+        theme: ("theme".length + "dark".length) * 2,
+        "other:token": ("other:token".length + "abc".length) * 2,
+        "app:user": userBytes
+      });
+      expect(usage.byPrefix).toEqual({
+        "": 18,
+        other: 28,
+        app: userBytes
+      });
+      expect(usage.library).toBe(userBytes);
+      expect(usage.foreign).toBe(18 + 28);
+      expect(usage.used).toBe(userBytes + 18 + 28);
+      expect(usage.remaining).toBe(usage.total - usage.used);
+    });
+
+    it("should list the largest entries first", () => {
+      const adapter = createMemoryStorageAdapter({
+        small: "x",
+        large: "x".repeat(50),
+        medium: "x".repeat(10)
+      });
+      const manager = new LocalStorageManager({ adapter });
+
+      expect(manager.getStorageUsage(2).largest).toEqual([
+        { key: "large", bytes: 110, owned: false },
+        { key: "medium", bytes: 32, owned: false }
+      ]);
+    });
+
+    it("should treat envelopes as owned when the manager has no prefix", () => {
+      const adapter = createMemoryStorageAdapter({ foreign: "plain" });
+      const manager = new LocalStorageManager({ adapter });
+
+      manager.setItem("mine", 1, {});
+
+      const { largest } = manager.getStorageUsage();
+
+      expect(largest.find((entry) => entry.key === "mine")?.owned).toBe(true);
+      expect(largest.find((entry) => entry.key === "foreign")?.owned).toBe(
+        false
+      );
+    });
+
+    it("should use the configured quota", () => {
+      const manager = new LocalStorageManager({
+        adapter: createMemoryStorageAdapter({ a: "b" }),
+        quota: 100
+      });
+
+      expect(manager.getStorageInfo()).toEqual({
+        used: 4,
+        remaining: 96,
+        total: 100
+      });
+    });
+
+    it("should resolve the prefix in getItemSize", () => {
+      const adapter = createMemoryStorageAdapter({ "app:key": "value" });
+      const manager = new LocalStorageManager({ prefix: "app", adapter });
+
+      expect(manager.getItemSize("key")).toBe(("app:key".length + 5) * 2);
+      expect(manager.getItemSize("missing")).toBe(0);
+    });
+  });
+
+  describe("useLocalStorageUsage", () => {
+    const originalStorage = navigator.storage;
+
+    afterEach(() => {
+      Object.defineProperty(navigator, "storage", {
+        value: originalStorage,
+        configurable: true
+      });
+    });
+
+    it("should recompute when the manager writes", () => {
+      const manager = new LocalStorageManager({
+        prefix: "app",
+        adapter: createMemoryStorageAdapter()
+      });
+
+      const { result } = renderHook(() => useLocalStorageUsage({ manager }));
+
+      expect(result.current.used).toBe(0);
+
+      act(() => {
+        manager.setItem("key", "value", {});
+      });
+
+      expect(result.current.library).toBeGreaterThan(0);
+      expect(result.current.largest[0].key).toBe("app:key");
+    });
+
+    it("should expose navigator.storage.estimate when available", async () => {
+      Object.defineProperty(navigator, "storage", {
+        value: {
+          estimate: jest.fn().mockResolvedValue({ usage: 10, quota: 1000 })
+        },
+        configurable: true
+      });
+
+      const manager = new LocalStorageManager({
+        adapter: createMemoryStorageAdapter()
+      });
+
+      const { result } = renderHook(() => useLocalStorageUsage({ manager }));
+
+      await waitFor(() =>
+        expect(result.current.estimate).toEqual({ usage: 10, quota: 1000 })
+      );
+    });
+  });
+});
@@ -3,6 +3,7 @@
  * @jest-environment jsdom
  */
 
+import type { LocalStorageOptions } from "../localStorage.types";
 import { LocalStorageManager, localStorageUtils } from "../localStorage.utils";
 
 describe("LocalStorageManager", () => {
@@ -171,6 +172,182 @@ describe("LocalStorageManager", () => {
     });
   });
 
+  describe("getItem with validate", () => {
+    const isString = (value: unknown): value is string =>
+      typeof value === "string";
+
+    beforeEach(() => {
+      window.localStorage.__storage["test:testKey"] = JSON.stringify({
+        value: 42,
+        expiresAt: null,
+        createdAt: Date.now()
+      });
+    });
+
+    it("should return null and report VALIDATION_ERROR for invalid data", () => {
+      const result = manager.getItem<string>("testKey", { validate: isString });
+
+      expect(result).toBeNull();
+      expect(mockOnError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "VALIDATION_ERROR" })
+      );
+      expect(window.localStorage.removeItem).not.toHaveBeenCalled();
+    });
+
+    it("should purge invalid entries when purgeInvalid is set", () => {
+      manager.getItem<string>("testKey", {
+        validate: isString,
+        purgeInvalid: true
+      });
+
+      expect(window.localStorage.removeItem).toHaveBeenCalledWith(
+        "test:testKey"
+      );
+    });
+
+    it("should accept safeParse-style schemas and use the parsed data", () => {
+      const schema = {
+        safeParse: (value: unknown) =>
+          typeof value === "number"
+            ? { success: true as const, data: String(value) }
+            : { success: false as const, error: new Error("Not a number") }
+      };
+
+      expect(manager.getItem<string>("testKey", { validate: schema })).toBe(
+        "42"
+      );
+      expect(mockOnError).not.toHaveBeenCalled();
+    });
+
+    it("should not validate or purge the value on write", () => {
+      const options: LocalStorageOptions<unknown> = {
+        validate: isString,
+        purgeInvalid: true
+      };
+
+      expect(manager.setItem("otherKey", 42, options)).toBe(true);
+      expect(window.localStorage.__storage["test:otherKey"]).toBeDefined();
+      expect(mockOnError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getItem with migrations", () => {
+    const migrations = {
+      "1.0.0": {
+        to: "2.0.0",
+        migrate: (value: unknown) => ({ name: value })
+      },
+      "2.0.0": {
+        to: "3.0.0",
+        migrate: (value: unknown) => ({ ...(value as object), active: true })
+      }
+    };
+
+    beforeEach(() => {
+      window.localStorage.__storage["test:user"] = JSON.stringify({
+        value: "Ana",
+        expiresAt: null,
+        createdAt: 1000,
+        version: "1.0.0"
+      });
+    });
+
+    it("should run the migration chain and rewrite the envelope", () => {
+      const result = manager.getItem("user", {
+        version: "3.0.0",
+        migrations
+      });
+
+      expect(result).toEqual({ name: "Ana", active: true });
+
+      const stored = JSON.parse(window.localStorage.__storage["test:user"]);
+
+      expect(stored).toEqual({
+        value: { name: "Ana", active: true },
+        expiresAt: null,
+        createdAt: 1000,
+        version: "3.0.0"
+      });
+    });
+
+    it("should report MIGRATION_ERROR when no path exists", () => {
+      const result = manager.getItem("user", {
+        version: "4.0.0",
+        migrations
+      });
+
+      expect(result).toBeNull();
+      expect(mockOnError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "MIGRATION_ERROR",
+          message: expect.stringContaining("1.0.0 to 4.0.0")
+        })
+      );
+    });
+
+    it("should return the migrated value when the write-back fails", () => {
+      const error = new Error("Quota exceeded");
+      error.name = "QuotaExceededError";
+      (window.localStorage.setItem as jest.Mock).mockImplementationOnce(() => {
+        throw error;
+      });
+
+      const result = manager.getItem("user", {
+        version: "3.0.0",
+        migrations
+      });
+
+      expect(result).toEqual({ name: "Ana", active: true });
+      expect(mockOnError).toHaveBeenCalledTimes(1);
+      expect(mockOnError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "QUOTA_EXCEEDED" })
+      );
+    });
+
+    it("should leave entries on the current version untouched", () => {
+      const result = manager.getItem("user", { migrations });
+
+      expect(result).toBe("Ana");
+      expect(window.localStorage.setItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getItem with sign", () => {
+    const options = { sign: "hmac-key" };
+
+    it("should verify entries written with a signature", () => {
+      manager.setItem("plan", { tier: "free" }, options);
+
+      const stored = JSON.parse(window.localStorage.__storage["test:plan"]);
+
+      expect(typeof stored.signature).toBe("string");
+      expect(manager.getItem("plan", options)).toEqual({ tier: "free" });
+      expect(mockOnError).not.toHaveBeenCalled();
+    });
+
+    it("should report INTEGRITY_ERROR when the entry was edited", () => {
+      manager.setItem("plan", { tier: "free" }, options);
+
+      const stored = JSON.parse(window.localStorage.__storage["test:plan"]);
+      stored.value.tier = "enterprise";
+      window.localStorage.__storage["test:plan"] = JSON.stringify(stored);
+
+      expect(manager.getItem("plan", options)).toBeNull();
+      expect(mockOnError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "INTEGRITY_ERROR" })
+      );
+    });
+
+    it("should reject unsigned entries and other keys", () => {
+      manager.setItem("plan", { tier: "free" }, {});
+      manager.setItem("other", { tier: "free" }, { sign: "another-key" });
+
+      expect(manager.getItem("plan", options)).toBeNull();
+      expect(manager.getItem("other", options)).toBeNull();
+      expect(mockOnError).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("removeItem", () => {
     it("should remove item successfully", () => {
       manager.removeItem("testKey");
@@ -355,7 +532,8 @@ describe("localStorageUtils", () => {
 
       const size = localStorageUtils.getItemSize("testKey");
 
-      expect(size).toBe("testValue".length + "testKey".length);
+      // UTF-16: two bytes per character
+      expect(size).toBe(("testValue".length + "testKey".length) * 2);
       expect(window.localStorage.getItem).toHaveBeenCalledWith("testKey");
     });
 
@@ -0,0 +1,135 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { deserialize, serialize } from "v8";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { IDBFactory } from "fake-indexeddb";
+
+import { IndexedDBStorageManager } from "../indexedDB.utils";
+import { useIndexedDBStorage } from "../useIndexedDBStorage";
+
+// jsdom doesn't provide structuredClone, which fake-indexeddb relies on
+if (typeof globalThis.structuredClone === "undefined") {
+  globalThis.structuredClone = <T>(value: T): T =>
+    deserialize(serialize(value));
+}
+
+describe("IndexedDBStorageManager", () => {
+  let manager: IndexedDBStorageManager;
+
+  beforeEach(() => {
+    manager = new IndexedDBStorageManager({
+      prefix: "test",
+      indexedDB: new IDBFactory()
+    });
+  });
+
+  it("should store and read values with the TTL envelope", async () => {
+    await manager.setItem("report", { rows: [1, 2, 3] }, { ttl: 1000 });
+
+    const metadata = await manager.getItemMetadata("report");
+
+    expect(await manager.getItem("report")).toEqual({ rows: [1, 2, 3] });
+    expect(metadata?.expiresAt).toBeGreaterThan(Date.now());
+    expect(metadata?.version).toBe("1.0.0");
+    expect(await manager.getAllKeys()).toEqual(["report"]);
+  });
+
+  it("should return null and remove expired items", async () => {
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now - 10000);
+    await manager.setItem("old", "value", { ttl: 1000 });
+    jest.restoreAllMocks();
+
+    expect(await manager.getItem("old")).toBeNull();
+    expect(await manager.getAllKeys()).toEqual([]);
+  });
+
+  it("should round-trip encrypted values", async () => {
+    const options = { autoEncrypt: true, secretKey: "secret" };
+
+    await manager.setItem("token", "abc", options);
+
+    expect(await manager.getItem("token", options)).toBe("abc");
+  });
+
+  it("should keep managers with different store names apart", async () => {
+    const factory = new IDBFactory();
+    const first = new IndexedDBStorageManager({
+      storeName: "one",
+      indexedDB: factory
+    });
+    const second = new IndexedDBStorageManager({
+      storeName: "two",
+      indexedDB: factory
+    });
+
+    expect(await first.setItem("key", "first", {})).toBe(true);
+    expect(await second.setItem("key", "second", {})).toBe(true);
+    expect(await first.getItem("key")).toBe("first");
+    expect(await second.getItem("key")).toBe("second");
+  });
+
+  it("should report unavailable without IndexedDB", async () => {
+    const unavailable = new IndexedDBStorageManager();
+
+    expect(unavailable.isAvailable()).toBe(false);
+    expect(await unavailable.setItem("key", "value")).toBe("unavailable");
+  });
+});
+
+describe("useIndexedDBStorage", () => {
+  let manager: IndexedDBStorageManager;
+
+  beforeEach(() => {
+    manager = new IndexedDBStorageManager({ indexedDB: new IDBFactory() });
+  });
+
+  it("should expose isLoading until the initial read resolves", async () => {
+    await manager.setItem("report", "stored");
+
+    const { result } = renderHook(() =>
+      useIndexedDBStorage("report", "initial", { manager })
+    );
+
+    expect(result.current[1].isLoading).toBe(true);
+    expect(result.current[0]).toBe("initial");
+
+    await waitFor(() => expect(result.current[1].isLoading).toBe(false));
+
+    expect(result.current[0]).toBe("stored");
+  });
+
+  it("should persist updates", async () => {
+    const { result } = renderHook(() =>
+      useIndexedDBStorage("count", 1, { manager })
+    );
+
+    await waitFor(() => expect(result.current[1].isLoading).toBe(false));
+
+    await act(async () => {
+      await result.current[1].setValue((prev) => prev + 1);
+    });
+
+    expect(result.current[0]).toBe(2);
+    expect(await manager.getItem("count")).toBe(2);
+  });
+
+  it("should reset to initial value on remove", async () => {
+    await manager.setItem("count", 5);
+
+    const { result } = renderHook(() =>
+      useIndexedDBStorage("count", 1, { manager })
+    );
+
+    await waitFor(() => expect(result.current[0]).toBe(5));
+
+    await act(async () => {
+      await result.current[1].removeValue();
+    });
+
+    expect(result.current[0]).toBe(1);
+    expect(await manager.getItem("count")).toBeNull();
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { useEffect, useState } from "react";
+import { act, render, renderHook } from "@testing-library/react";
+
+import { localStorageManager } from "../localStorage.utils";
+import { useLocalStorage } from "../useLocalStorage";
+
+describe("useLocalStorage external store", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should render once on mount", () => {
+    window.localStorage.setItem(
+      "counter",
+      JSON.stringify({ value: 5, expiresAt: null, createdAt: Date.now() })
+    );
+
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+
+      return useLocalStorage("counter", 0);
+    });
+
+    expect(result.current[0]).toBe(5);
+    expect(renders).toBe(1);
+  });
+
+  it("should give every reader of a key the same snapshot", () => {
+    const first = renderHook(() => useLocalStorage("shared", { count: 0 }));
+    const second = renderHook(() => useLocalStorage("shared", { count: 0 }));
+
+    act(() => {
+      first.result.current[1].setValue({ count: 1 });
+    });
+
+    expect(second.result.current[0]).toEqual({ count: 1 });
+    expect(second.result.current[0]).toBe(first.result.current[0]);
+  });
+
+  it("should update readers when a value is removed", () => {
+    const first = renderHook(() => useLocalStorage("shared", "initial"));
+    const second = renderHook(() => useLocalStorage("shared", "initial"));
+
+    act(() => {
+      first.result.current[1].setValue("changed");
+    });
+
+    act(() => {
+      first.result.current[1].removeValue();
+    });
+
+    expect(second.result.current[0]).toBe("initial");
+  });
+
+  it("should apply consecutive functional updates in order", () => {
+    const { result } = renderHook(() => useLocalStorage("count", 0));
+
+    act(() => {
+      result.current[1].setValue((prev) => prev + 1);
+      result.current[1].setValue((prev) => prev + 1);
+    });
+
+    expect(result.current[0]).toBe(2);
+  });
+
+  it("should pick up writes from other tabs", () => {
+    const { result } = renderHook(() => useLocalStorage("theme", "light"));
+
+    act(() => {
+      window.localStorage.setItem(
+        "theme",
+        JSON.stringify({ value: "dark", expiresAt: null, createdAt: 0 })
+      );
+      window.dispatchEvent(
+        new StorageEvent("storage", { key: "theme", newValue: "dark" })
+      );
+    });
+
+    expect(result.current[0]).toBe("dark");
+  });
+
+  it("should hydrate server markup with the initial value", () => {
+    window.localStorage.setItem(
+      "theme",
+      JSON.stringify({ value: "dark", expiresAt: null, createdAt: 0 })
+    );
+
+    function Theme() {
+      const [theme] = useLocalStorage("theme", "light");
+
+      return <span>{theme}</span>;
+    }
+
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    const container = document.createElement("div");
+    container.innerHTML = "<span>light</span>";
+    document.body.appendChild(container);
+
+    render(<Theme />, { container, hydrate: true });
+
+    expect(errorSpy).not.toHaveBeenCalled();
+    expect(container.textContent).toBe("dark");
+
+    errorSpy.mockRestore();
+  });
+
+  it("should not update other components while reading during render", async () => {
+    window.localStorage.setItem(
+      "session",
+      JSON.stringify({ value: "old", expiresAt: Date.now() - 1000 })
+    );
+
+    function Session() {
+      const [session] = useLocalStorage("session", "none");
+
+      return <span>{session}</span>;
+    }
+
+    function Changes() {
+      const [changes, setChanges] = useState(0);
+
+      useEffect(
+        () => localStorageManager.subscribe(() => setChanges((n) => n + 1)),
+        []
+      );
+
+      return <span>{changes}</span>;
+    }
+
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    const { container } = render(<Changes />);
+
+    await act(async () => {
+      render(<Session />, { container });
+    });
+
+    expect(errorSpy).not.toHaveBeenCalled();
+    expect(window.localStorage.getItem("session")).toBeNull();
+
+    errorSpy.mockRestore();
+  });
+});
+
+describe("useLocalStorage writeMode", () => {
+  const readStored = (key: string) => {
+    const raw = window.localStorage.getItem(key);
+
+    return raw === null ? null : JSON.parse(raw).value;
+  };
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should update state right away and write once after a pause", () => {
+    const setItem = jest.spyOn(Storage.prototype, "setItem");
+    const { result } = renderHook(() =>
+      useLocalStorage("search", "", {
+        writeMode: { type: "debounce", wait: 200 }
+      })
+    );
+
+    act(() => {
+      result.current[1].setValue("a");
+      result.current[1].setValue((prev) => prev + "b");
+    });
+
+    expect(result.current[0]).toBe("ab");
+    expect(readStored("search")).toBeNull();
+
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+
+    expect(readStored("search")).toBe("ab");
+    expect(setItem).toHaveBeenCalledTimes(1);
+
+    setItem.mockRestore();
+  });
+
+  it("should write at most once per wait when throttled", () => {
+    const { result } = renderHook(() =>
+      useLocalStorage("volume", 0, {
+        writeMode: { type: "throttle", wait: 100 }
+      })
+    );
+
+    act(() => {
+      result.current[1].setValue(1);
+      result.current[1].setValue(2);
+      result.current[1].setValue(3);
+    });
+
+    expect(readStored("volume")).toBe(1);
+    expect(result.current[0]).toBe(3);
+
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(readStored("volume")).toBe(3);
+  });
+
+  it("should flush on demand, on unmount and on pagehide", () => {
+    const writeMode = { type: "debounce" as const, wait: 1000 };
+    const first = renderHook(() => useLocalStorage("a", "", { writeMode }));
+
+    act(() => {
+      first.result.current[1].setValue("flushed");
+      first.result.current[1].flush();
+    });
+
+    expect(readStored("a")).toBe("flushed");
+
+    act(() => {
+      first.result.current[1].setValue("unmounted");
+    });
+
+    first.unmount();
+
+    expect(readStored("a")).toBe("unmounted");
+
+    const second = renderHook(() => useLocalStorage("b", "", { writeMode }));
+
+    act(() => {
+      second.result.current[1].setValue("hidden");
+      window.dispatchEvent(new Event("pagehide"));
+    });
+
+    expect(readStored("b")).toBe("hidden");
+  });
+});
@@ -61,7 +61,7 @@ describe("useLocalStorage", () => {
     expect(localStorageMock.removeItem).toHaveBeenCalledWith("test-key");
   });
 
-  it("should handle TTL expiration", () => {
+  it("should handle TTL expiration", async () => {
     const pastTime = Date.now() - 10000; // 10 seconds ago
     const expiredData = JSON.stringify({
       value: "expired",
@@ -76,6 +76,30 @@ describe("useLocalStorage", () => {
     );
 
     expect(result.current[0]).toBe("initial");
+
+    // The entry is removed after render
+    await act(async () => {});
+
+    expect(localStorageMock.removeItem).toHaveBeenCalledWith("test-key");
+  });
+
+  it("should fall back to initial value when validation fails", async () => {
+    localStorageMock.getItem.mockReturnValue(
+      JSON.stringify({ value: { unexpected: true }, expiresAt: null })
+    );
+
+    const { result } = renderHook(() =>
+      useLocalStorage("test-key", "initial", {
+        validate: (value): value is string => typeof value === "string",
+        purgeInvalid: true
+      })
+    );
+
+    expect(result.current[0]).toBe("initial");
+
+    // The entry is removed after render
+    await act(async () => {});
+
     expect(localStorageMock.removeItem).toHaveBeenCalledWith("test-key");
   });
 
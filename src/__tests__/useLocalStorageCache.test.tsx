@@ -0,0 +1,110 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook, waitFor } from "@testing-library/react";
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import { LocalStorageManager } from "../localStorage.utils";
+import { useLocalStorageCache } from "../useLocalStorageSpecialized";
+
+describe("useLocalStorageCache", () => {
+  let manager: LocalStorageManager;
+
+  beforeEach(() => {
+    manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+  });
+
+  it("should share one request between consumers of a key", async () => {
+    let resolve: (value: string) => void = () => {};
+
+    const fetcher = jest.fn(() => new Promise<string>((r) => (resolve = r)));
+
+    const first = renderHook(() =>
+      useLocalStorageCache("user", fetcher, { manager })
+    );
+    const second = renderHook(() =>
+      useLocalStorageCache("user", fetcher, { manager })
+    );
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      resolve("Ana");
+    });
+
+    expect(first.result.current.data).toBe("Ana");
+    expect(second.result.current.data).toBe("Ana");
+    expect(second.result.current.isLoading).toBe(false);
+  });
+
+  it("should retry with backoff and report failures", async () => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, "random").mockReturnValue(1);
+
+    const fetcher = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockResolvedValue("Ana");
+
+    const { result } = renderHook(() =>
+      useLocalStorageCache("user", fetcher, {
+        manager,
+        retry: 3,
+        retryDelay: 100
+      })
+    );
+
+    await act(async () => {
+      await Promise.resolve();
+    });
+
+    expect(result.current.failureCount).toBe(1);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(100);
+    });
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(result.current.failureCount).toBe(2);
+
+    // The second retry waits twice as long
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(199);
+    });
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1);
+    });
+
+    expect(result.current.data).toBe("Ana");
+    expect(result.current.failureCount).toBe(0);
+
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("should stop retrying when retryOn returns false", async () => {
+    const error = Object.assign(new Error("Not found"), { status: 404 });
+    const fetcher = jest.fn(() => Promise.reject(error));
+
+    const { result } = renderHook(() =>
+      useLocalStorageCache("user", fetcher, {
+        manager,
+        retry: 3,
+        retryDelay: 0,
+        retryOn: (err) => (err as { status?: number }).status !== 404
+      })
+    );
+
+    await waitFor(() => expect(result.current.error).toBe(error));
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(result.current.failureCount).toBe(1);
+  });
+});
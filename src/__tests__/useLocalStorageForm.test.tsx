@@ -0,0 +1,175 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { ChangeEvent } from "react";
+import { act, renderHook } from "@testing-library/react";
+
+import { useLocalStorageForm } from "../useLocalStorageForm";
+
+const initialValues = { name: "", password: "", subscribe: false };
+
+const readDraft = () => {
+  const raw = window.localStorage.getItem("signup");
+
+  return raw === null ? null : JSON.parse(raw).value;
+};
+
+describe("useLocalStorageForm", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should write a debounced draft without excluded fields", () => {
+    const { result } = renderHook(() =>
+      useLocalStorageForm("signup", initialValues, {
+        debounce: 300,
+        exclude: ["password"]
+      })
+    );
+
+    act(() => {
+      result.current.setFieldValue("name", "Ana");
+      result.current.setFieldValue("password", "hunter2");
+    });
+
+    expect(readDraft()).toBeNull();
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(readDraft()).toEqual({ name: "Ana", subscribe: false });
+  });
+
+  it("should track dirty fields", () => {
+    const { result } = renderHook(() =>
+      useLocalStorageForm("signup", initialValues)
+    );
+
+    expect(result.current.isPristine).toBe(true);
+
+    act(() => {
+      result.current.setFieldValue("name", "Ana");
+    });
+
+    expect(result.current.isDirty).toBe(true);
+    expect(result.current.dirtyFields).toEqual({
+      name: true,
+      password: false,
+      subscribe: false
+    });
+
+    act(() => {
+      result.current.setFieldValue("name", "");
+    });
+
+    expect(result.current.isFieldDirty("name")).toBe(false);
+  });
+
+  it("should bind fields to inputs", () => {
+    const { result } = renderHook(() =>
+      useLocalStorageForm("signup", initialValues)
+    );
+
+    const input = document.createElement("input");
+    input.value = "Ana";
+    const checkbox = document.createElement("input");
+    checkbox.type = "checkbox";
+    checkbox.checked = true;
+
+    act(() => {
+      result.current
+        .getFieldProps("name")
+        .onChange({ target: input } as ChangeEvent<HTMLInputElement>);
+      result.current
+        .getFieldProps("subscribe")
+        .onChange({ target: checkbox } as ChangeEvent<HTMLInputElement>);
+    });
+
+    expect(result.current.getFieldProps("name")).toMatchObject({
+      name: "name",
+      value: "Ana"
+    });
+    expect(result.current.values.subscribe).toBe(true);
+  });
+
+  it("should offer a stored draft until it is restored", () => {
+    window.localStorage.setItem(
+      "signup",
+      JSON.stringify({
+        value: { name: "Draft" },
+        expiresAt: null,
+        createdAt: 0
+      })
+    );
+
+    const { result } = renderHook(() =>
+      useLocalStorageForm("signup", initialValues)
+    );
+
+    expect(result.current.values.name).toBe("");
+    expect(result.current.hasDraft).toBe(true);
+
+    act(() => {
+      result.current.restoreDraft();
+    });
+
+    expect(result.current.values.name).toBe("Draft");
+    expect(result.current.hasDraft).toBe(false);
+  });
+
+  it("should remove the draft when discarded", () => {
+    const { result } = renderHook(() =>
+      useLocalStorageForm("signup", initialValues)
+    );
+
+    act(() => {
+      result.current.setFieldValue("name", "Ana");
+      result.current.discardDraft();
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(readDraft()).toBeNull();
+  });
+
+  it("should save pending changes on unmount", () => {
+    const { result, unmount } = renderHook(() =>
+      useLocalStorageForm("signup", initialValues, { ttl: 60000 })
+    );
+
+    act(() => {
+      result.current.setFieldValue("name", "Ana");
+    });
+
+    unmount();
+
+    expect(readDraft()).toMatchObject({ name: "Ana" });
+    expect(
+      JSON.parse(window.localStorage.getItem("signup") as string).expiresAt
+    ).toBeGreaterThan(Date.now());
+  });
+
+  it("should apply the draft on mount with autoRestore", () => {
+    window.localStorage.setItem(
+      "signup",
+      JSON.stringify({
+        value: { name: "Draft" },
+        expiresAt: null,
+        createdAt: 0
+      })
+    );
+
+    const { result } = renderHook(() =>
+      useLocalStorageForm("signup", initialValues, { autoRestore: true })
+    );
+
+    expect(result.current.values.name).toBe("Draft");
+    expect(result.current.hasDraft).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook } from "@testing-library/react";
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import { LocalStorageManager } from "../localStorage.utils";
+import { useLocalStorageHistory } from "../useLocalStorageHistory";
+
+describe("useLocalStorageHistory", () => {
+  const createManager = () =>
+    new LocalStorageManager({ adapter: createMemoryStorageAdapter() });
+
+  it("should undo and redo changes", () => {
+    const manager = createManager();
+    const { result } = renderHook(() =>
+      useLocalStorageHistory("doc", "", { manager })
+    );
+
+    act(() => {
+      result.current.setValue("a");
+      result.current.setValue("ab");
+    });
+
+    expect(result.current.canUndo).toBe(true);
+    expect(result.current.canRedo).toBe(false);
+
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(result.current.value).toBe("a");
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => {
+      result.current.redo();
+    });
+
+    expect(result.current.value).toBe("ab");
+
+    act(() => {
+      result.current.undo();
+      result.current.setValue("ac");
+    });
+
+    expect(result.current.canRedo).toBe(false);
+    expect(result.current.past).toEqual(["", "a"]);
+  });
+
+  it("should persist history across mounts", () => {
+    const manager = createManager();
+    const first = renderHook(() =>
+      useLocalStorageHistory("doc", "", { manager })
+    );
+
+    act(() => {
+      first.result.current.setValue("saved");
+    });
+
+    first.unmount();
+
+    const second = renderHook(() =>
+      useLocalStorageHistory("doc", "", { manager })
+    );
+
+    expect(second.result.current.value).toBe("saved");
+
+    act(() => {
+      second.result.current.undo();
+    });
+
+    expect(second.result.current.value).toBe("");
+  });
+
+  it("should keep at most `limit` undo steps", () => {
+    const manager = createManager();
+    const { result } = renderHook(() =>
+      useLocalStorageHistory("count", 0, { manager, limit: 2 })
+    );
+
+    act(() => {
+      [1, 2, 3, 4].forEach((value) => result.current.setValue(value));
+    });
+
+    expect(result.current.past).toEqual([2, 3]);
+  });
+
+  it("should group changes until a checkpoint", () => {
+    const manager = createManager();
+    const { result } = renderHook(() =>
+      useLocalStorageHistory("text", "", {
+        manager,
+        manualCheckpoints: true
+      })
+    );
+
+    act(() => {
+      result.current.setValue("h");
+      result.current.setValue("hi");
+      result.current.checkpoint();
+      result.current.setValue("hi!");
+    });
+
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(result.current.value).toBe("hi");
+
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(result.current.value).toBe("");
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it("should clear history and keep the present value", () => {
+    const manager = createManager();
+    const { result } = renderHook(() =>
+      useLocalStorageHistory("doc", "", { manager })
+    );
+
+    act(() => {
+      result.current.setValue("a");
+      result.current.setValue("b");
+      result.current.undo();
+      result.current.clearHistory();
+    });
+
+    expect(result.current.value).toBe("a");
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it("should apply TTL to the whole history", () => {
+    const manager = createManager();
+    const { result } = renderHook(() =>
+      useLocalStorageHistory("doc", "", { manager, ttl: 60000 })
+    );
+
+    act(() => {
+      result.current.setValue("a");
+    });
+
+    expect(result.current.getExpiresAt()).toBeGreaterThan(Date.now());
+    expect(manager.getItem("doc")).toEqual({
+      past: [""],
+      present: "a",
+      future: [],
+      checkpoint: true
+    });
+  });
+});
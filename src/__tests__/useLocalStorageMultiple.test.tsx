@@ -0,0 +1,145 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook } from "@testing-library/react";
+
+import { createMemoryStorageAdapter } from "../localStorage.adapters";
+import { StorageAdapter } from "../localStorage.types";
+import { LocalStorageManager } from "../localStorage.utils";
+import { useLocalStorage } from "../useLocalStorage";
+import { useLocalStorageMultiple } from "../useLocalStorageAdvanced";
+
+describe("useLocalStorageMultiple", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should pick up writes from other tabs", () => {
+    const { result } = renderHook(() =>
+      useLocalStorageMultiple({ theme: "light", lang: "en" })
+    );
+
+    act(() => {
+      window.localStorage.setItem(
+        "theme",
+        JSON.stringify({ value: "dark", expiresAt: null, createdAt: 0 })
+      );
+      window.dispatchEvent(
+        new StorageEvent("storage", { key: "theme", newValue: "dark" })
+      );
+    });
+
+    expect(result.current.values).toEqual({ theme: "dark", lang: "en" });
+  });
+
+  it("should stay in sync with useLocalStorage on the same page", () => {
+    const multiple = renderHook(() =>
+      useLocalStorageMultiple({ theme: "light", lang: "en" })
+    );
+    const single = renderHook(() => useLocalStorage("lang", "en"));
+
+    act(() => {
+      single.result.current[1].setValue("fr");
+    });
+
+    expect(multiple.result.current.values.lang).toBe("fr");
+
+    act(() => {
+      multiple.result.current.setValue("lang", "de");
+    });
+
+    expect(single.result.current[0]).toBe("de");
+  });
+
+  it("should keep the values object stable between renders", () => {
+    const { result, rerender } = renderHook(() =>
+      useLocalStorageMultiple({ a: 1, b: 2 })
+    );
+    const values = result.current.values;
+
+    rerender();
+
+    expect(result.current.values).toBe(values);
+  });
+
+  it("should apply per-key options and expose metadata", () => {
+    const manager = new LocalStorageManager({
+      adapter: createMemoryStorageAdapter()
+    });
+
+    const { result } = renderHook(() =>
+      useLocalStorageMultiple(
+        { token: "", theme: "light" },
+        { manager, keyOptions: { token: { ttl: 60000 } } }
+      )
+    );
+
+    act(() => {
+      result.current.setValues({ token: "abc", theme: "dark" });
+    });
+
+    expect(result.current.getExpiresAt("token")).toBeGreaterThan(Date.now());
+    expect(result.current.getRemainingTime("token")).toBeLessThanOrEqual(60000);
+    expect(result.current.isExpired("token")).toBe(false);
+    expect(result.current.getExpiresAt("theme")).toBeNull();
+    expect(result.current.getRemainingTime("theme")).toBeNull();
+    expect(result.current.getCreatedAt("theme")).not.toBeNull();
+  });
+
+  it("should validate each key with its own validator", () => {
+    const adapter = createMemoryStorageAdapter({
+      count: JSON.stringify({ value: "nope", expiresAt: null, createdAt: 0 })
+    });
+    const manager = new LocalStorageManager({ adapter, onError: jest.fn() });
+
+    const { result } = renderHook(() =>
+      useLocalStorageMultiple(
+        { count: 0, name: "" },
+        {
+          manager,
+          keyOptions: {
+            count: { validate: (value) => typeof value === "number" }
+          }
+        }
+      )
+    );
+
+    expect(result.current.values.count).toBe(0);
+  });
+
+  it("should report failed writes per key", () => {
+    const adapter = createMemoryStorageAdapter();
+    const failingAdapter: StorageAdapter = {
+      ...adapter,
+      setItem: (key, value) => {
+        if (key === "b") throw new Error("Write failed");
+
+        adapter.setItem(key, value);
+      }
+    };
+    const manager = new LocalStorageManager({
+      adapter: failingAdapter,
+      onError: jest.fn()
+    });
+
+    const { result } = renderHook(() =>
+      useLocalStorageMultiple({ a: 1, b: 2 }, { manager })
+    );
+
+    act(() => {
+      result.current.setValue("a", 10);
+      result.current.setValue("b", 20);
+    });
+
+    expect(result.current.values).toEqual({ a: 10, b: 2 });
+    expect(result.current.errors.a).toBeUndefined();
+    expect(result.current.errors.b).toBeInstanceOf(Error);
+
+    act(() => {
+      result.current.removeValue("b");
+    });
+
+    expect(result.current.errors.b).toBeUndefined();
+  });
+});
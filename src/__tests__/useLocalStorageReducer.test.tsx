@@ -0,0 +1,127 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook } from "@testing-library/react";
+
+import { useLocalStorageReducer } from "../useLocalStorageReducer";
+
+type State = { count: number; draft: string };
+type Action = { type: "increment" } | { type: "type"; text: string };
+
+const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "increment":
+      return { ...state, count: state.count + 1 };
+    case "type":
+      return { ...state, draft: action.text };
+  }
+};
+
+const initialState: State = { count: 0, draft: "" };
+
+const readStored = (key: string) =>
+  JSON.parse(window.localStorage.getItem(key) as string).value;
+
+describe("useLocalStorageReducer", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should persist the state after each dispatch", () => {
+    const { result } = renderHook(() =>
+      useLocalStorageReducer("counter", reducer, initialState)
+    );
+
+    act(() => {
+      result.current[1]({ type: "increment" });
+      result.current[1]({ type: "increment" });
+    });
+
+    expect(result.current[0]).toEqual({ count: 2, draft: "" });
+    expect(readStored("counter")).toEqual({ count: 2, draft: "" });
+  });
+
+  it("should restore the persisted state on mount", () => {
+    window.localStorage.setItem(
+      "counter",
+      JSON.stringify({
+        value: { count: 5, draft: "hi" },
+        expiresAt: null,
+        createdAt: 0
+      })
+    );
+
+    const { result } = renderHook(() =>
+      useLocalStorageReducer("counter", reducer, initialState)
+    );
+
+    expect(result.current[0]).toEqual({ count: 5, draft: "hi" });
+  });
+
+  it("should only write the selected part of the state", () => {
+    const persistSelector = (state: State) => ({ count: state.count });
+    const { result } = renderHook(() =>
+      useLocalStorageReducer("counter", reducer, initialState, {
+        persistSelector
+      })
+    );
+
+    act(() => {
+      result.current[1]({ type: "type", text: "secret" });
+      result.current[1]({ type: "increment" });
+    });
+
+    expect(result.current[0]).toEqual({ count: 1, draft: "secret" });
+    expect(readStored("counter")).toEqual({ count: 1 });
+
+    const remounted = renderHook(() =>
+      useLocalStorageReducer("counter", reducer, initialState, {
+        persistSelector
+      })
+    );
+
+    expect(remounted.result.current[0]).toEqual({ count: 1, draft: "" });
+  });
+
+  it("should merge writes from other tabs", () => {
+    const { result } = renderHook(() =>
+      useLocalStorageReducer("counter", reducer, initialState, {
+        persistSelector: (state) => ({ count: state.count })
+      })
+    );
+
+    act(() => {
+      result.current[1]({ type: "type", text: "kept" });
+    });
+
+    act(() => {
+      window.localStorage.setItem(
+        "counter",
+        JSON.stringify({ value: { count: 9 }, expiresAt: null, createdAt: 0 })
+      );
+      window.dispatchEvent(
+        new StorageEvent("storage", { key: "counter", newValue: "x" })
+      );
+    });
+
+    expect(result.current[0]).toEqual({ count: 9, draft: "kept" });
+  });
+
+  it("should reset to the initial state when removed", () => {
+    const { result } = renderHook(() =>
+      useLocalStorageReducer("counter", reducer, initialState)
+    );
+
+    act(() => {
+      result.current[1]({ type: "increment" });
+    });
+
+    act(() => {
+      result.current[2].removeValue();
+    });
+
+    expect(result.current[0]).toEqual(initialState);
+    expect(window.localStorage.getItem("counter")).toBeNull();
+  });
+});
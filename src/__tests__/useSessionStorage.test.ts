@@ -0,0 +1,96 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook } from "@testing-library/react";
+
+import {
+  useLocalStorage,
+  useSessionStorage,
+  useSessionStorageArray
+} from "../index";
+
+describe("useSessionStorage", () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.localStorage.clear();
+  });
+
+  it("should persist values in sessionStorage", () => {
+    const { result } = renderHook(() => useSessionStorage("step", 1));
+
+    act(() => {
+      result.current[1].setValue(2);
+    });
+
+    expect(result.current[0]).toBe(2);
+    expect(window.sessionStorage.getItem("step")).toContain("2");
+    expect(window.localStorage.getItem("step")).toBeNull();
+  });
+
+  it("should read the TTL envelope back from sessionStorage", () => {
+    window.sessionStorage.setItem(
+      "step",
+      JSON.stringify({ value: 3, expiresAt: null, createdAt: Date.now() })
+    );
+
+    const { result } = renderHook(() =>
+      useSessionStorage("step", 1, { ttl: 1000 })
+    );
+
+    expect(result.current[0]).toBe(3);
+  });
+
+  it("should not react to localStorage writes on the same key", () => {
+    const session = renderHook(() => useSessionStorage("shared", "session"));
+    const local = renderHook(() => useLocalStorage("shared", "local"));
+
+    act(() => {
+      local.result.current[1].setValue("changed");
+    });
+
+    expect(local.result.current[0]).toBe("changed");
+    expect(session.result.current[0]).toBe("session");
+  });
+
+  it("should sync hooks on the same key within the tab", () => {
+    const first = renderHook(() => useSessionStorage("wizard", "start"));
+    const second = renderHook(() => useSessionStorage("wizard", "start"));
+
+    act(() => {
+      first.result.current[1].setValue("next");
+    });
+
+    expect(second.result.current[0]).toBe("next");
+  });
+
+  it("should ignore native storage events from other tabs", () => {
+    const { result } = renderHook(() => useSessionStorage("wizard", "start"));
+
+    window.sessionStorage.setItem(
+      "wizard",
+      JSON.stringify({ value: "other", expiresAt: null, createdAt: 0 })
+    );
+
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent("storage", { key: "wizard", newValue: "x" })
+      );
+    });
+
+    expect(result.current[0]).toBe("start");
+  });
+
+  it("should expose the array helpers", () => {
+    const { result } = renderHook(() =>
+      useSessionStorageArray<string>("items", [])
+    );
+
+    act(() => {
+      result.current.addItem("a");
+    });
+
+    expect(result.current.array).toEqual(["a"]);
+    expect(window.sessionStorage.getItem("items")).toContain("a");
+  });
+});
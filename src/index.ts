@@ -1,5 +1,10 @@
 export { useLocalStorage } from "./useLocalStorage";
 
+export {
+  LocalStorageProvider,
+  useLocalStorageContext
+} from "./LocalStorageProvider";
+
 export {
   useLocalStorageArray,
   useLocalStorageObject,
@@ -8,6 +13,25 @@ export {
   useLocalStorageMultiple
 } from "./useLocalStorageAdvanced";
 
+export {
+  useSessionStorage,
+  useSessionStorageArray,
+  useSessionStorageObject,
+  useSessionStorageBoolean,
+  useSessionStorageNumber,
+  useSessionStorageMultiple
+} from "./useSessionStorage";
+
+export { useIndexedDBStorage } from "./useIndexedDBStorage";
+
+export { useLocalStorageUsage } from "./useLocalStorageUsage";
+
+export { useLocalStorageHistory } from "./useLocalStorageHistory";
+
+export { useLocalStorageReducer } from "./useLocalStorageReducer";
+
+export { useLocalStorageForm } from "./useLocalStorageForm";
+
 export {
   useLocalStorageCache,
   useLocalStorageSync,
@@ -18,14 +42,62 @@ export {
 export {
   LocalStorageManager,
   localStorageManager,
+  sessionStorageManager,
   localStorageUtils
 } from "./localStorage.utils";
 
+export {
+  IndexedDBStorageManager,
+  indexedDBStorageManager
+} from "./indexedDB.utils";
+
+export {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createMemoryStorageAdapter,
+  localStorageAdapter,
+  sessionStorageAdapter
+} from "./localStorage.adapters";
+
 export type {
   ExpiringLocalStorageValue,
   LocalStorageOptions,
+  UseLocalStorageMultipleOptions,
+  LocalStorageHistory,
+  UseLocalStorageHistoryOptions,
+  UseLocalStorageReducerOptions,
+  UseLocalStorageFormOptions,
+  WriteMode,
+  SlidingTtlOptions,
   UseLocalStorageReturn,
   LocalStorageEventDetail,
   LocalStorageError,
-  LocalStorageManagerOptions
+  LocalStorageManagerOptions,
+  StorageAdapter,
+  LocalStorageValidator,
+  LocalStorageMigration,
+  LocalStorageMigrations,
+  CompressionOptions,
+  LocalStorageChangeMessage,
+  LocalStorageTransaction,
+  LocalStorageDefaults,
+  EvictionStrategy,
+  EvictionOptions,
+  EncryptionAlgorithm,
+  EncryptionOptions,
+  KeyRotationOptions,
+  KeyRotationResult,
+  BackupManifest,
+  BackupExportOptions,
+  BackupImportOptions,
+  BackupImportStrategy,
+  BackupImportReport,
+  StorageUsage,
+  StorageUsageEntry,
+  StorageQuotaEstimate,
+  UseLocalStorageUsageReturn,
+  SafeParseResult,
+  IndexedDBStorageManagerOptions,
+  IndexedDBStorageOptions,
+  UseIndexedDBStorageReturn
 } from "./localStorage.types";
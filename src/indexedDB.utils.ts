@@ -0,0 +1,519 @@
+/* eslint-disable no-console */
+import {
+  decryptValue,
+  decryptWithKeys,
+  decryptWithKeysAsync,
+  decryptWithWebCrypto,
+  encryptValue,
+  encryptWithWebCrypto,
+  getSecretKeys,
+  getWebCryptoIterations,
+  isWebCryptoPayload
+} from "./localStorage.crypto";
+import { isQuotaExceededError } from "./localStorage.eviction";
+import { runMigrations } from "./localStorage.migrations";
+import {
+  createIntegrityError,
+  signEntry,
+  verifyEntry
+} from "./localStorage.signature";
+import {
+  ExpiringLocalStorageValue,
+  IndexedDBStorageManagerOptions,
+  IndexedDBStorageOptions,
+  LocalStorageError
+} from "./localStorage.types";
+import { validateValue } from "./localStorage.validation";
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Async counterpart of LocalStorageManager backed by IndexedDB, for values
+ * too large for localStorage. Entries use the same TTL envelope.
+ */
+export class IndexedDBStorageManager {
+  private prefix: string;
+  private version: string;
+  private dbName: string;
+  private storeName: string;
+  private factory?: IDBFactory;
+  private onError?: (error: LocalStorageError) => void;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDBStorageManagerOptions = {}) {
+    this.prefix = options.prefix || "";
+    this.version = options.version || "1.0.0";
+    this.dbName = options.dbName || "react-hooks-localstorage";
+    this.storeName = options.storeName || "entries";
+    this.factory = options.indexedDB;
+    this.onError = options.onError;
+  }
+
+  /**
+   * Get the full key (including prefix) used in the object store
+   */
+  getKey(key: string): string {
+    return this.prefix ? `${this.prefix}:${key}` : key;
+  }
+
+  private getFactory(): IDBFactory | undefined {
+    if (this.factory) return this.factory;
+
+    return typeof indexedDB !== "undefined" ? indexedDB : undefined;
+  }
+
+  /**
+   * Check if IndexedDB is available
+   */
+  isAvailable(): boolean {
+    return !!this.getFactory();
+  }
+
+  private handleError(error: LocalStorageError): void {
+    if (this.onError) {
+      this.onError(error);
+    } else {
+      console.warn("IndexedDB Storage Error:", error);
+    }
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    const factory = this.getFactory();
+
+    if (!factory) {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+
+    this.dbPromise = this.openWithStore(factory).catch((error) => {
+      this.dbPromise = null;
+      throw error;
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Open the database at its current version and, when the object store
+   * doesn't exist yet (e.g. another manager created the database with a
+   * different `storeName`), reopen it one version up to create the store
+   */
+  private async openWithStore(
+    factory: IDBFactory,
+    version?: number
+  ): Promise<IDBDatabase> {
+    const request =
+      version === undefined
+        ? factory.open(this.dbName)
+        : factory.open(this.dbName, version);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(this.storeName)) {
+        request.result.createObjectStore(this.storeName);
+      }
+    };
+
+    let db: IDBDatabase;
+
+    try {
+      db = await requestToPromise(request);
+    } catch (error) {
+      // Another connection upgraded the database first
+      if (version !== undefined && (error as Error)?.name === "VersionError") {
+        return this.openWithStore(factory);
+      }
+
+      throw error;
+    }
+
+    if (!db.objectStoreNames.contains(this.storeName)) {
+      const nextVersion = db.version + 1;
+      db.close();
+
+      return this.openWithStore(factory, nextVersion);
+    }
+
+    // Don't block other managers from upgrading the database; the next
+    // operation reopens it
+    db.onversionchange = () => {
+      db.close();
+      this.dbPromise = null;
+    };
+
+    return db;
+  }
+
+  private async getStore(mode: IDBTransactionMode) {
+    const db = await this.openDB();
+    const transaction = db.transaction(this.storeName, mode);
+
+    return { transaction, store: transaction.objectStore(this.storeName) };
+  }
+
+  private async readRaw(key: string): Promise<unknown> {
+    const { store } = await this.getStore("readonly");
+
+    return requestToPromise(store.get(this.getKey(key)));
+  }
+
+  private async parseEntry<T>(
+    raw: unknown,
+    options: IndexedDBStorageOptions<T>
+  ): Promise<ExpiringLocalStorageValue<T>> {
+    if (typeof raw !== "string") return raw as ExpiringLocalStorageValue<T>;
+
+    let serialized = raw;
+
+    // AES-GCM entries are recognised from the payload, legacy ones from the
+    // options
+    if (isWebCryptoPayload(raw)) {
+      if (!options.secretKey) {
+        throw new Error("A secretKey is required to read AES-GCM entries");
+      }
+
+      serialized = await decryptWithKeysAsync(
+        getSecretKeys(options),
+        (secretKey) => decryptWithWebCrypto(raw, secretKey)
+      );
+    } else if (options.autoEncrypt && options.secretKey) {
+      serialized = decryptWithKeys(getSecretKeys(options), (secretKey) =>
+        decryptValue<string>(raw, secretKey)
+      );
+    }
+
+    return (options.deserialize || JSON.parse)(
+      serialized
+    ) as ExpiringLocalStorageValue<T>;
+  }
+
+  private async writeEntry<T>(
+    key: string,
+    data: ExpiringLocalStorageValue<T>,
+    options: IndexedDBStorageOptions<T>
+  ): Promise<void> {
+    if (options.sign) data = signEntry(data, options.sign);
+
+    // Without custom serialization or encryption the envelope is stored
+    // as a structured clone, skipping JSON entirely
+    let entry: unknown = data;
+
+    if (options.serialize || (options.autoEncrypt && options.secretKey)) {
+      const serialized = options.serialize
+        ? options.serialize(data as T)
+        : JSON.stringify(data);
+      const iterations = getWebCryptoIterations(options.encryption);
+
+      if (options.autoEncrypt && options.secretKey) {
+        entry =
+          iterations !== null
+            ? await encryptWithWebCrypto(
+                serialized,
+                options.secretKey,
+                iterations
+              )
+            : encryptValue(serialized, options.secretKey);
+      } else {
+        entry = serialized;
+      }
+    }
+
+    const { transaction, store } = await this.getStore("readwrite");
+    store.put(entry, this.getKey(key));
+    await transactionToPromise(transaction);
+  }
+
+  /**
+   * Run the migration chain for an outdated entry and persist the upgraded
+   * envelope. Returns null when the entry can't be upgraded.
+   */
+  private async migrateEntry<T>(
+    key: string,
+    data: ExpiringLocalStorageValue<T>,
+    options: IndexedDBStorageOptions<T>
+  ): Promise<ExpiringLocalStorageValue<T> | null> {
+    const targetVersion = options.version || this.version;
+    const storedVersion = data.version || this.version;
+
+    if (!options.migrations || storedVersion === targetVersion) return data;
+
+    const result = runMigrations(
+      data.value,
+      storedVersion,
+      targetVersion,
+      options.migrations
+    );
+
+    if (!result.migrated) {
+      this.handleError({
+        type: "MIGRATION_ERROR",
+        message: `${result.message} for "${key}"`,
+        originalError: result.error
+      });
+
+      return null;
+    }
+
+    const migratedData: ExpiringLocalStorageValue<T> = {
+      ...data,
+      value: result.value as T,
+      version: targetVersion
+    };
+
+    // A failed write-back doesn't invalidate the value just read
+    try {
+      await this.writeEntry(key, migratedData, options);
+    } catch (error) {
+      this.reportWriteError(error);
+    }
+
+    return migratedData;
+  }
+
+  private reportWriteError(error: unknown): void {
+    this.handleError({
+      type: isQuotaExceededError(error)
+        ? "QUOTA_EXCEEDED"
+        : "SERIALIZATION_ERROR",
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      originalError: error instanceof Error ? error : undefined
+    });
+  }
+
+  /**
+   * Set a value in IndexedDB with optional TTL
+   */
+  async setItem<T>(
+    key: string,
+    value: T,
+    options: IndexedDBStorageOptions<T> = {}
+  ): Promise<boolean | "unavailable"> {
+    if (!this.isAvailable()) return "unavailable";
+
+    try {
+      const dataToStore: ExpiringLocalStorageValue<T> = {
+        value,
+        expiresAt: options.ttl ? Date.now() + options.ttl : null,
+        createdAt: Date.now(),
+        version: options.version || this.version
+      };
+
+      await this.writeEntry(key, dataToStore, options);
+
+      if (options.syncAcrossTabs !== false) {
+        this.dispatchStorageEvent(key, value);
+      }
+
+      return true;
+    } catch (error) {
+      this.reportWriteError(error);
+
+      return false;
+    }
+  }
+
+  /**
+   * Get a value from IndexedDB with expiration check
+   */
+  async getItem<T>(
+    key: string,
+    options: IndexedDBStorageOptions<T> = {}
+  ): Promise<T | null> {
+    if (!this.isAvailable()) return null;
+
+    try {
+      const raw = await this.readRaw(key);
+      if (raw === undefined || raw === null) return null;
+
+      let data = await this.parseEntry(raw, options);
+
+      if (options.sign && !verifyEntry(data, options.sign)) {
+        throw createIntegrityError(key);
+      }
+
+      if (data.expiresAt && Date.now() > data.expiresAt) {
+        await this.removeItem(key);
+
+        return null;
+      }
+
+      if (options.migrations) {
+        const migratedData = await this.migrateEntry(key, data, options);
+        if (!migratedData) return null;
+
+        data = migratedData;
+      }
+
+      if (options.validate) {
+        const result = validateValue(options.validate, data.value);
+
+        if (!result.valid) {
+          this.handleError({
+            type: "VALIDATION_ERROR",
+            message: `Stored value for "${key}" failed validation`,
+            originalError:
+              result.error instanceof Error ? result.error : undefined
+          });
+
+          if (options.purgeInvalid) await this.removeItem(key);
+
+          return null;
+        }
+
+        return result.value;
+      }
+
+      return data.value;
+    } catch (error) {
+      this.handleError({
+        type:
+          error instanceof Error && error.name === "IntegrityError"
+            ? "INTEGRITY_ERROR"
+            : "DESERIALIZATION_ERROR",
+        message:
+          error instanceof Error ? error.message : "Failed to deserialize data",
+        originalError: error instanceof Error ? error : undefined
+      });
+
+      return null;
+    }
+  }
+
+  /**
+   * Remove an item from IndexedDB
+   */
+  async removeItem(key: string): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      const { transaction, store } = await this.getStore("readwrite");
+      store.delete(this.getKey(key));
+      await transactionToPromise(transaction);
+    } catch (error) {
+      this.handleError({
+        type: "UNKNOWN_ERROR",
+        message:
+          error instanceof Error ? error.message : "Failed to remove item",
+        originalError: error instanceof Error ? error : undefined
+      });
+    }
+  }
+
+  /**
+   * Get metadata about a stored item
+   */
+  async getItemMetadata(
+    key: string,
+    options: IndexedDBStorageOptions<unknown> = {}
+  ): Promise<{
+    createdAt: number;
+    expiresAt: number | null;
+    version?: string;
+  } | null> {
+    if (!this.isAvailable()) return null;
+
+    try {
+      const raw = await this.readRaw(key);
+      if (raw === undefined || raw === null) return null;
+
+      const data = await this.parseEntry(raw, options);
+
+      return {
+        createdAt: data.createdAt,
+        expiresAt: data.expiresAt,
+        version: data.version
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get all keys with the current prefix
+   */
+  async getAllKeys(): Promise<string[]> {
+    if (!this.isAvailable()) return [];
+
+    try {
+      const { store } = await this.getStore("readonly");
+      const keys = await requestToPromise(store.getAllKeys());
+      const prefix = this.prefix ? `${this.prefix}:` : "";
+
+      return keys
+        .map(String)
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => key.replace(prefix, ""));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Clear all items with the current prefix
+   */
+  async clear(): Promise<void> {
+    const keys = await this.getAllKeys();
+
+    await Promise.all(keys.map((key) => this.removeItem(key)));
+  }
+
+  /**
+   * Clean up expired items. Encrypted or custom-serialized entries are
+   * skipped since they can't be read without their options.
+   */
+  async cleanupExpiredItems(): Promise<number> {
+    const keys = await this.getAllKeys();
+    let cleanedCount = 0;
+
+    for (const key of keys) {
+      try {
+        const raw = await this.readRaw(key);
+        if (!raw || typeof raw !== "object") continue;
+
+        const data = raw as ExpiringLocalStorageValue<unknown>;
+
+        if (data.expiresAt && Date.now() > data.expiresAt) {
+          await this.removeItem(key);
+          cleanedCount++;
+        }
+      } catch {
+        // Ignore entries that can't be read
+      }
+    }
+
+    return cleanedCount;
+  }
+
+  private dispatchStorageEvent<T>(key: string, newValue: T): void {
+    if (typeof window === "undefined") return;
+
+    const event = new CustomEvent("localStorageChange", {
+      detail: {
+        key,
+        newValue,
+        oldValue: null,
+        storageKey: this.getKey(key),
+        storageArea: "indexedDB"
+      }
+    });
+
+    window.dispatchEvent(event);
+  }
+}
+
+// Default instance
+export const indexedDBStorageManager = new IndexedDBStorageManager();
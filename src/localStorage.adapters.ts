@@ -0,0 +1,117 @@
+import { StorageAdapter } from "./localStorage.types";
+
+type WebStorageName = "localStorage" | "sessionStorage";
+
+function getWebStorage(name: WebStorageName): Storage | undefined {
+  if (typeof window === "undefined") return undefined;
+
+  // Accessing the storage throws a SecurityError when the browser blocks it
+  // (e.g. disabled cookies or sandboxed iframes)
+  try {
+    return window[name];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create an adapter backed by one of the Web Storage areas.
+ * The storage is looked up on every call so it can be swapped out (tests,
+ * SSR hydration) after the adapter is created.
+ */
+function createWebStorageAdapter(
+  name: WebStorageName,
+  crossTab: boolean
+): StorageAdapter {
+  const subscribe = (listener: (key: string | null) => void) => {
+    if (typeof window === "undefined") return () => {};
+
+    const handleStorage = (e: StorageEvent) => {
+      const storage = getWebStorage(name);
+      if (e.storageArea && e.storageArea !== storage) return;
+
+      if (e.newValue !== e.oldValue || e.key === null) {
+        listener(e.key);
+      }
+    };
+
+    window.addEventListener("storage", handleStorage);
+
+    return () => window.removeEventListener("storage", handleStorage);
+  };
+
+  return {
+    name,
+    isAvailable: () => !!getWebStorage(name),
+    getItem: (key) => {
+      const storage = getWebStorage(name);
+
+      return storage ? storage.getItem(key) : null;
+    },
+    setItem: (key, value) => {
+      getWebStorage(name)?.setItem(key, value);
+    },
+    removeItem: (key) => {
+      getWebStorage(name)?.removeItem(key);
+    },
+    keys: () => {
+      const storage = getWebStorage(name);
+      if (!storage) return [];
+
+      // Object.keys() does not list entries in every environment (e.g.
+      // jsdom), so merge it with the index-based Storage API
+      const keys = new Set(Object.keys(storage));
+
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null) keys.add(key);
+      }
+
+      return Array.from(keys);
+    },
+    // sessionStorage is scoped to the tab, so only localStorage can observe
+    // writes from other tabs
+    ...(crossTab ? { subscribe } : {})
+  };
+}
+
+/**
+ * Adapter for window.localStorage
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  return createWebStorageAdapter("localStorage", true);
+}
+
+/**
+ * Adapter for window.sessionStorage
+ */
+export function createSessionStorageAdapter(): StorageAdapter {
+  return createWebStorageAdapter("sessionStorage", false);
+}
+
+/**
+ * In-memory adapter, useful for SSR, tests or as a fallback when Web Storage
+ * is disabled
+ */
+export function createMemoryStorageAdapter(
+  initialData: Record<string, string> = {}
+): StorageAdapter {
+  const store = new Map<string, string>(Object.entries(initialData));
+
+  return {
+    name: "memory",
+    isAvailable: () => true,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, String(value));
+    },
+    removeItem: (key) => {
+      store.delete(key);
+    },
+    keys: () => Array.from(store.keys())
+  };
+}
+
+export const localStorageAdapter = createLocalStorageAdapter();
+
+export const sessionStorageAdapter = createSessionStorageAdapter();
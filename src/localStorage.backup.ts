@@ -0,0 +1,143 @@
+import * as CryptoJS from "crypto-js";
+
+import { version } from "../package.json";
+import {
+  decryptPayload,
+  encryptValue,
+  encryptWithWebCrypto,
+  isWebCryptoAvailable
+} from "./localStorage.crypto";
+import { BackupManifest } from "./localStorage.types";
+
+export const BACKUP_FORMAT = "react-hooks-localstorage-backup";
+
+export const LIBRARY_VERSION = version;
+
+export type Backup = {
+  manifest: BackupManifest;
+  entries?: Record<string, string>; // Unprefixed key to stored string
+  payload?: string; // Encrypted entries when a passphrase was used
+};
+
+/**
+ * SHA-256 of the entries, independent of key order, or of the encrypted
+ * payload so an encrypted backup doesn't fingerprint its plaintext
+ */
+export function computeChecksum(
+  contents: Record<string, string> | string
+): string {
+  const hashed =
+    typeof contents === "string"
+      ? contents
+      : JSON.stringify(
+          Object.keys(contents)
+            .sort()
+            .map((key) => [key, contents[key]])
+        );
+
+  return CryptoJS.SHA256(hashed).toString(CryptoJS.enc.Hex);
+}
+
+/**
+ * Wrap stored entries in a backup, encrypting them as a whole when a
+ * passphrase is given (AES-GCM where Web Crypto is available)
+ */
+export async function createBackup(
+  entries: Record<string, string>,
+  manifest: Omit<
+    BackupManifest,
+    "format" | "libraryVersion" | "checksum" | "encrypted"
+  >,
+  passphrase?: string
+): Promise<Backup> {
+  const header = {
+    format: BACKUP_FORMAT,
+    libraryVersion: LIBRARY_VERSION,
+    ...manifest
+  };
+
+  if (!passphrase) {
+    return {
+      manifest: {
+        ...header,
+        checksum: computeChecksum(entries),
+        encrypted: false
+      },
+      entries
+    };
+  }
+
+  const serialized = JSON.stringify(entries);
+  const payload = isWebCryptoAvailable()
+    ? await encryptWithWebCrypto(serialized, passphrase)
+    : encryptValue(serialized, passphrase);
+
+  return {
+    manifest: {
+      ...header,
+      checksum: computeChecksum(payload),
+      encrypted: true
+    },
+    payload
+  };
+}
+
+/**
+ * Parse a backup and return its verified entries. Throws when the backup is
+ * malformed, the passphrase is wrong or the checksum doesn't match.
+ */
+export async function readBackup(
+  json: string,
+  passphrase?: string
+): Promise<{ manifest: BackupManifest; entries: Record<string, string> }> {
+  const backup = JSON.parse(json) as Backup;
+
+  if (!backup || !backup.manifest || backup.manifest.format !== BACKUP_FORMAT) {
+    throw new Error("Not a react-hooks-localstorage backup");
+  }
+
+  let entries = backup.entries;
+
+  if (backup.manifest.encrypted) {
+    if (!passphrase || typeof backup.payload !== "string") {
+      throw new Error("A passphrase is required to import this backup");
+    }
+
+    verifyChecksum(backup.payload, backup.manifest);
+
+    entries = JSON.parse(await decryptPayload(backup.payload, passphrase));
+  }
+
+  if (!entries || typeof entries !== "object") {
+    throw new Error("Backup has no entries");
+  }
+
+  if (!backup.manifest.encrypted) verifyChecksum(entries, backup.manifest);
+
+  return { manifest: backup.manifest, entries };
+}
+
+function verifyChecksum(
+  contents: Record<string, string> | string,
+  manifest: BackupManifest
+): void {
+  if (computeChecksum(contents) === manifest.checksum) return;
+
+  const error = new Error("Backup checksum mismatch");
+  error.name = "IntegrityError";
+  throw error;
+}
+
+/**
+ * createdAt of a stored entry, or null when it can't be read (e.g. the entry
+ * is encrypted)
+ */
+export function getEntryCreatedAt(item: string): number | null {
+  try {
+    const data = JSON.parse(item);
+
+    return data && typeof data.createdAt === "number" ? data.createdAt : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,61 @@
+import { LocalStorageChangeMessage } from "./localStorage.types";
+
+export const DEFAULT_CHANNEL_NAME = "react-hooks-localstorage";
+
+// Identifies this tab so it can ignore its own messages
+export const TAB_ID = `${Date.now().toString(36)}-${Math.random()
+  .toString(36)
+  .slice(2)}`;
+
+export type BroadcastTransport = {
+  post: (message: LocalStorageChangeMessage) => void;
+  subscribe: (
+    listener: (message: LocalStorageChangeMessage) => void
+  ) => () => void;
+  close: () => void;
+};
+
+/**
+ * Create a BroadcastChannel-based transport for change messages, or null when
+ * BroadcastChannel is not supported (callers fall back to storage events)
+ */
+export function createBroadcastTransport(
+  channelName: string = DEFAULT_CHANNEL_NAME
+): BroadcastTransport | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+
+  let channel: BroadcastChannel | null = null;
+
+  // Opened lazily so managers that never write or subscribe don't hold a
+  // channel open
+  const getChannel = () => {
+    if (!channel) channel = new BroadcastChannel(channelName);
+
+    return channel;
+  };
+
+  return {
+    post: (message) => {
+      try {
+        getChannel().postMessage(message);
+      } catch {
+        // The channel may be closed while the page unloads
+      }
+    },
+    subscribe: (listener) => {
+      const current = getChannel();
+
+      const handleMessage = (e: MessageEvent<LocalStorageChangeMessage>) => {
+        if (e.data && e.data.originId !== TAB_ID) listener(e.data);
+      };
+
+      current.addEventListener("message", handleMessage);
+
+      return () => current.removeEventListener("message", handleMessage);
+    },
+    close: () => {
+      channel?.close();
+      channel = null;
+    }
+  };
+}
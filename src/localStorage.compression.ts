@@ -0,0 +1,44 @@
+import { compressToUTF16, decompressFromUTF16 } from "lz-string";
+
+import { CompressionOptions } from "./localStorage.types";
+
+// Marker stored in the envelope `codec` field for compressed values
+export const LZ_UTF16_CODEC = "lz-utf16";
+
+const DEFAULT_THRESHOLD = 1024;
+
+export function getCompressionThreshold(
+  compress: boolean | CompressionOptions | undefined
+): number | null {
+  if (!compress) return null;
+
+  return typeof compress === "object" && compress.threshold !== undefined
+    ? compress.threshold
+    : DEFAULT_THRESHOLD;
+}
+
+/**
+ * Compress a value to a UTF-16 safe string, or return null when the value is
+ * below the threshold or compression wouldn't make it smaller
+ */
+export function compressValue<T>(value: T, threshold: number): string | null {
+  const json = JSON.stringify(value);
+  if (json === undefined || json.length < threshold) return null;
+
+  const compressed = compressToUTF16(json);
+
+  return compressed.length < json.length ? compressed : null;
+}
+
+/**
+ * Restore a value produced by compressValue
+ */
+export function decompressValue<T>(compressed: string): T {
+  const json = decompressFromUTF16(compressed);
+
+  if (!json) {
+    throw new Error("Failed to decompress data");
+  }
+
+  return JSON.parse(json);
+}
@@ -0,0 +1,262 @@
+import * as CryptoJS from "crypto-js";
+
+import { EncryptionAlgorithm, EncryptionOptions } from "./localStorage.types";
+
+/**
+ * Encrypt any JSON-serializable value with a passphrase
+ */
+export function encryptValue<T>(data: T, secretKey: string): string {
+  const stringified = JSON.stringify(data);
+
+  return CryptoJS.AES.encrypt(stringified, secretKey).toString();
+}
+
+/**
+ * Decrypt a value produced by encryptValue
+ */
+export function decryptValue<T>(cipher: string, secretKey: string): T {
+  try {
+    const bytes = CryptoJS.AES.decrypt(cipher, secretKey);
+    const decrypted = bytes.toString(CryptoJS.enc.Utf8);
+
+    return JSON.parse(decrypted);
+  } catch (error) {
+    throw new Error(`Failed to decrypt data: ${error}`);
+  }
+}
+
+// Marker and format version of entries encrypted with encryptWithWebCrypto
+const WEB_CRYPTO_PREFIX = "$aes-gcm$v1$";
+
+export const DEFAULT_PBKDF2_ITERATIONS = 310000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+/**
+ * Check if Web Crypto (crypto.subtle) is available
+ */
+export function isWebCryptoAvailable(): boolean {
+  return (
+    typeof crypto !== "undefined" &&
+    typeof crypto.subtle !== "undefined" &&
+    typeof crypto.getRandomValues === "function"
+  );
+}
+
+/**
+ * Check if a stored string was produced by encryptWithWebCrypto
+ */
+export function isWebCryptoPayload(value: string): boolean {
+  return value.startsWith(WEB_CRYPTO_PREFIX);
+}
+
+async function deriveKey(
+  secretKey: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secretKey),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Encrypt a string with AES-GCM. The key is derived from the passphrase with
+ * PBKDF2 and a random salt; salt, IV and iteration count are stored with the
+ * ciphertext so every entry can be decrypted on its own.
+ */
+export async function encryptWithWebCrypto(
+  plaintext: string,
+  secretKey: string,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(secretKey, salt, iterations);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return [
+    WEB_CRYPTO_PREFIX.slice(0, -1),
+    iterations,
+    bytesToBase64(salt),
+    bytesToBase64(iv),
+    bytesToBase64(new Uint8Array(ciphertext))
+  ].join("$");
+}
+
+/**
+ * Decrypt a payload produced by encryptWithWebCrypto. Fails when the key is
+ * wrong or the payload was modified.
+ */
+export async function decryptWithWebCrypto(
+  payload: string,
+  secretKey: string
+): Promise<string> {
+  const [iterations, salt, iv, ciphertext] = payload
+    .slice(WEB_CRYPTO_PREFIX.length)
+    .split("$");
+
+  if (!iterations || !salt || !iv || !ciphertext) {
+    throw new Error("Failed to decrypt data: malformed payload");
+  }
+
+  try {
+    const key = await deriveKey(
+      secretKey,
+      base64ToBytes(salt),
+      Number(iterations)
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToBytes(iv) },
+      key,
+      base64ToBytes(ciphertext)
+    );
+
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    throw new Error(`Failed to decrypt data: ${error}`);
+  }
+}
+
+/**
+ * PBKDF2 iterations when `encryption` selects AES-GCM, or null for the
+ * legacy crypto-js mode
+ */
+export function getWebCryptoIterations(
+  encryption: EncryptionAlgorithm | EncryptionOptions | undefined
+): number | null {
+  if (!encryption) return null;
+
+  if (typeof encryption === "string") {
+    return encryption === "aes-gcm" ? DEFAULT_PBKDF2_ITERATIONS : null;
+  }
+
+  return encryption.algorithm === "aes-gcm"
+    ? encryption.iterations || DEFAULT_PBKDF2_ITERATIONS
+    : null;
+}
+
+/**
+ * Secret keys to try when decrypting: the current key, then the fallbacks
+ */
+export function getSecretKeys(options: {
+  secretKey?: string;
+  fallbackSecretKeys?: string[];
+}): string[] {
+  return [options.secretKey, ...(options.fallbackSecretKeys || [])].filter(
+    (key): key is string => !!key
+  );
+}
+
+/**
+ * Run `decrypt` with each key until one succeeds, rethrowing the first
+ * error when none does
+ */
+export function decryptWithKeys<R>(
+  keys: string[],
+  decrypt: (key: string) => R
+): R {
+  let firstError: unknown;
+
+  for (const key of keys) {
+    try {
+      return decrypt(key);
+    } catch (error) {
+      if (firstError === undefined) firstError = error;
+    }
+  }
+
+  throw firstError ?? new Error("Failed to decrypt data: no secret key");
+}
+
+/**
+ * Async version of decryptWithKeys
+ */
+export async function decryptWithKeysAsync<R>(
+  keys: string[],
+  decrypt: (key: string) => Promise<R>
+): Promise<R> {
+  let firstError: unknown;
+
+  for (const key of keys) {
+    try {
+      return await decrypt(key);
+    } catch (error) {
+      if (firstError === undefined) firstError = error;
+    }
+  }
+
+  throw firstError ?? new Error("Failed to decrypt data: no secret key");
+}
+
+/**
+ * Decrypt a stored payload in either format back to its serialized string
+ */
+export async function decryptPayload(
+  payload: string,
+  secretKey: string
+): Promise<string> {
+  if (isWebCryptoPayload(payload)) {
+    return decryptWithWebCrypto(payload, secretKey);
+  }
+
+  const decrypted = decryptValue<unknown>(payload, secretKey);
+
+  if (typeof decrypted !== "string") {
+    throw new Error("Failed to decrypt data: unexpected payload");
+  }
+
+  return decrypted;
+}
+
+/**
+ * PBKDF2 iteration count stored in an AES-GCM payload, or null for other
+ * payloads
+ */
+export function getPayloadIterations(payload: string): number | null {
+  if (!isWebCryptoPayload(payload)) return null;
+
+  const iterations = Number(
+    payload.slice(WEB_CRYPTO_PREFIX.length).split("$")[0]
+  );
+
+  return Number.isFinite(iterations) && iterations > 0 ? iterations : null;
+}
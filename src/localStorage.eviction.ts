@@ -0,0 +1,78 @@
+import { EvictionStrategy } from "./localStorage.types";
+
+export type EvictionCandidate = {
+  key: string; // Unprefixed key
+  size: number; // Characters occupied by the key and its serialized entry
+  createdAt: number;
+  expiresAt: number | null;
+  lastAccessedAt: number;
+  priority: number;
+};
+
+/**
+ * Detect quota errors across browsers (Firefox uses its own name, older
+ * engines only set the legacy code)
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const { code } = error as Error & { code?: number };
+
+  return (
+    error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    code === 22 ||
+    code === 1014
+  );
+}
+
+function compareCandidates(
+  strategy: EvictionStrategy
+): (a: EvictionCandidate, b: EvictionCandidate) => number {
+  switch (strategy) {
+    case "oldest":
+      return (a, b) => a.createdAt - b.createdAt;
+    case "soonest-expiring":
+      return (a, b) =>
+        (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity) ||
+        a.lastAccessedAt - b.lastAccessedAt;
+    case "priority":
+      return (a, b) =>
+        a.priority - b.priority || a.lastAccessedAt - b.lastAccessedAt;
+    case "lru":
+    default:
+      return (a, b) => a.lastAccessedAt - b.lastAccessedAt;
+  }
+}
+
+/**
+ * Pick the keys to evict so that at least `bytesNeeded` characters are
+ * freed. Expired entries always go first since they are already dead.
+ */
+export function selectEvictions(
+  candidates: EvictionCandidate[],
+  strategy: EvictionStrategy,
+  bytesNeeded: number,
+  now: number = Date.now()
+): string[] {
+  const isExpired = (candidate: EvictionCandidate) =>
+    candidate.expiresAt !== null && candidate.expiresAt <= now;
+  const compare = compareCandidates(strategy);
+
+  const ordered = [
+    ...candidates.filter(isExpired),
+    ...candidates.filter((candidate) => !isExpired(candidate)).sort(compare)
+  ];
+
+  const selected: string[] = [];
+  let freed = 0;
+
+  for (const candidate of ordered) {
+    if (freed >= bytesNeeded && !isExpired(candidate)) break;
+
+    selected.push(candidate.key);
+    freed += candidate.size;
+  }
+
+  return selected;
+}
@@ -0,0 +1,185 @@
+import {
+  ExpiringLocalStorageValue,
+  LocalStorageOptions
+} from "./localStorage.types";
+
+// Upper bound of the default renewal interval of a sliding TTL
+const MAX_RENEW_INTERVAL = 60000;
+
+/**
+ * Minimum time between two renewals of a sliding TTL, or null when the
+ * options don't use one. Defaults to a tenth of the TTL, at most a minute.
+ */
+export function getRenewInterval<T>(
+  options: LocalStorageOptions<T>
+): number | null {
+  if (!options.slidingTtl || !options.ttl) return null;
+
+  if (
+    typeof options.slidingTtl === "object" &&
+    options.slidingTtl.renewInterval !== undefined
+  ) {
+    return options.slidingTtl.renewInterval;
+  }
+
+  return Math.min(options.ttl / 10, MAX_RENEW_INTERVAL);
+}
+
+/**
+ * Entry with its expiry pushed to `now + ttl`, or null when the entry has no
+ * sliding TTL or was renewed less than the renewal interval ago
+ */
+export function renewEntry<T>(
+  data: ExpiringLocalStorageValue<T>,
+  options: LocalStorageOptions<T>,
+  now: number = Date.now()
+): ExpiringLocalStorageValue<T> | null {
+  const renewInterval = getRenewInterval(options);
+  if (renewInterval === null || !data.expiresAt || !options.ttl) return null;
+
+  // The entry was last written or renewed `ttl` before it expires
+  const renewedAt = data.expiresAt - options.ttl;
+  if (now - renewedAt < renewInterval) return null;
+
+  return { ...data, expiresAt: now + options.ttl };
+}
+
+// Longest delay setTimeout accepts without firing right away
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+type ScheduledExpiry = {
+  expiresAt: number;
+  options: LocalStorageOptions<unknown>; // Needed to read the entry back
+};
+
+/**
+ * Single timer for every expiring entry of a manager. It always waits for
+ * the next expiry, fires `expire` right after an entry's TTL runs out and is
+ * paused while the document is hidden; due entries are handled as soon as
+ * the page is visible again.
+ */
+export class ExpirationScheduler {
+  private entries = new Map<string, ScheduledExpiry>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private timerAt: number | null = null;
+  private detachVisibility: (() => void) | null = null;
+
+  constructor(
+    private expire: (key: string, options: LocalStorageOptions<unknown>) => void
+  ) {}
+
+  schedule<T>(
+    key: string,
+    expiresAt: number | null,
+    options: LocalStorageOptions<T>
+  ): void {
+    // Timers would only keep a server process alive
+    if (typeof window === "undefined") return;
+
+    if (expiresAt === null) {
+      this.cancel(key);
+
+      return;
+    }
+
+    this.entries.set(key, {
+      expiresAt,
+      options: options as LocalStorageOptions<unknown>
+    });
+    this.reschedule();
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  cancel(key: string): void {
+    if (this.entries.delete(key)) this.reschedule();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.reschedule();
+  }
+
+  private reschedule(): void {
+    if (this.entries.size === 0) {
+      this.stopTimer();
+      this.detachVisibility?.();
+      this.detachVisibility = null;
+
+      return;
+    }
+
+    this.attachVisibility();
+
+    if (isDocumentHidden()) {
+      this.stopTimer();
+
+      return;
+    }
+
+    let next = Infinity;
+    this.entries.forEach(({ expiresAt }) => {
+      next = Math.min(next, expiresAt);
+    });
+
+    if (this.timer && this.timerAt === next) return;
+
+    this.stopTimer();
+    this.timerAt = next;
+    // Entries count as expired once the current time is past expiresAt
+    this.timer = setTimeout(
+      this.run,
+      Math.min(Math.max(next - Date.now() + 1, 0), MAX_TIMEOUT)
+    );
+  }
+
+  private run = (): void => {
+    this.timer = null;
+    this.timerAt = null;
+
+    const now = Date.now();
+
+    this.entries.forEach(({ expiresAt, options }, key) => {
+      if (expiresAt >= now) return;
+
+      // Expiring may schedule the key again, e.g. when another tab renewed it
+      this.entries.delete(key);
+      this.expire(key, options);
+    });
+
+    this.reschedule();
+  };
+
+  private stopTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+
+    this.timer = null;
+    this.timerAt = null;
+  }
+
+  private attachVisibility(): void {
+    if (this.detachVisibility || typeof document === "undefined") return;
+
+    const handleVisibilityChange = () => {
+      if (isDocumentHidden()) {
+        this.stopTimer();
+      } else {
+        this.run();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    this.detachVisibility = () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }
+}
+
+function isDocumentHidden(): boolean {
+  return (
+    typeof document !== "undefined" && document.visibilityState === "hidden"
+  );
+}
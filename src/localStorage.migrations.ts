@@ -0,0 +1,47 @@
+import { LocalStorageMigrations } from "./localStorage.types";
+
+export type MigrationResult =
+  | { migrated: true; value: unknown }
+  | { migrated: false; message: string; error?: Error };
+
+/**
+ * Upgrade a stored value by following the `from-version → { to, migrate }`
+ * chain until the target version is reached
+ */
+export function runMigrations(
+  value: unknown,
+  fromVersion: string,
+  toVersion: string,
+  migrations: LocalStorageMigrations
+): MigrationResult {
+  const visited = new Set<string>();
+  let version = fromVersion;
+  let current = value;
+
+  while (version !== toVersion) {
+    const step = migrations[version];
+
+    if (!step || visited.has(version)) {
+      return {
+        migrated: false,
+        message: `No migration path from version ${fromVersion} to ${toVersion}`
+      };
+    }
+
+    visited.add(version);
+
+    try {
+      current = step.migrate(current);
+    } catch (error) {
+      return {
+        migrated: false,
+        message: `Migration from version ${version} to ${step.to} failed`,
+        error: error instanceof Error ? error : undefined
+      };
+    }
+
+    version = step.to;
+  }
+
+  return { migrated: true, value: current };
+}
@@ -0,0 +1,65 @@
+import * as CryptoJS from "crypto-js";
+
+import { ExpiringLocalStorageValue } from "./localStorage.types";
+
+// Envelope fields covered by the signature, in a fixed order so the payload
+// doesn't depend on object key order
+function getSignedPayload<T>(data: ExpiringLocalStorageValue<T>): string {
+  return JSON.stringify([
+    data.value,
+    data.expiresAt,
+    data.createdAt,
+    data.version ?? null,
+    data.codec ?? null,
+    data.priority ?? null
+  ]);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let difference = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return difference === 0;
+}
+
+/**
+ * Add an HMAC-SHA256 signature of the envelope
+ */
+export function signEntry<T>(
+  data: ExpiringLocalStorageValue<T>,
+  secret: string
+): ExpiringLocalStorageValue<T> {
+  const signature = CryptoJS.HmacSHA256(getSignedPayload(data), secret);
+
+  return { ...data, signature: signature.toString(CryptoJS.enc.Base64) };
+}
+
+/**
+ * Check that an envelope carries a valid signature. Unsigned envelopes fail,
+ * since stripping the signature is as easy as editing the value.
+ */
+export function verifyEntry<T>(
+  data: ExpiringLocalStorageValue<T>,
+  secret: string
+): boolean {
+  if (!data || typeof data.signature !== "string") return false;
+
+  const expected = CryptoJS.HmacSHA256(getSignedPayload(data), secret);
+
+  return safeEqual(data.signature, expected.toString(CryptoJS.enc.Base64));
+}
+
+/**
+ * Error thrown when an entry fails signature verification
+ */
+export function createIntegrityError(key: string): Error {
+  const error = new Error(`Signature mismatch for "${key}"`);
+  error.name = "IntegrityError";
+
+  return error;
+}
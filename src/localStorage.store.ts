@@ -0,0 +1,552 @@
+import { getRenewInterval } from "./localStorage.expiration";
+import {
+  LocalStorageEventDetail,
+  LocalStorageOptions
+} from "./localStorage.types";
+import { LocalStorageManager } from "./localStorage.utils";
+
+type Listener = () => void;
+
+type WriteResult = boolean | "unavailable" | Promise<boolean | "unavailable">;
+
+/**
+ * External store for a single key of a manager, consumed through
+ * useSyncExternalStore. Every hook reading the same key shares one store, so
+ * they all render the same snapshot.
+ */
+export class LocalStorageStore<T> {
+  private listeners = new Set<Listener>();
+  private cache: { raw: string | null; value: T | null } | null = null;
+  private fallback: T | null = null;
+  private reading = false;
+  private writing = false;
+  private detach: (() => void) | null = null;
+  // Async (AES-GCM) reads and writes in flight
+  private decrypting: { raw: string | null } | null = null;
+  private pendingWrite: { value: T } | null = null;
+  // Functional updates made before the first decrypt resolved, applied to
+  // the decrypted value instead of initialValue
+  private queuedUpdates: Array<{
+    update: (prevValue: T | null) => T;
+    options: LocalStorageOptions<T>;
+    resolve: (result: boolean | "unavailable") => void;
+  }> = [];
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  // Write held back by `writeMode` until its timer fires or it is flushed
+  private deferred: { value: T; options: LocalStorageOptions<T> } | null = null;
+  private deferTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastWriteAt = 0;
+  private lastRenewAt = 0;
+  // Render-time read whose side effects are still to be applied
+  private pendingRead: { options: LocalStorageOptions<T> } | null = null;
+  private expireListeners = new Set<(lastValue: T) => void>();
+  private detachExpire: (() => void) | null = null;
+  // Expiry found by a read before anything listened for it
+  private missedExpiry: { lastValue: T } | null = null;
+
+  constructor(
+    private manager: LocalStorageManager,
+    private key: string
+  ) {}
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.attach();
+
+    return () => {
+      this.listeners.delete(listener);
+
+      // Once nothing is mounted, start from storage again on the next mount
+      if (this.listeners.size === 0) {
+        this.detach?.();
+        this.detach = null;
+        this.cache = null;
+        this.fallback = null;
+        this.decrypting = null;
+        this.missedExpiry = null;
+      }
+    };
+  };
+
+  /**
+   * Subscribe to the expiry of this key. The first render reads the entry
+   * before effects can subscribe, so an entry that had already expired then
+   * is reported to the first listener when it subscribes.
+   */
+  onExpire(listener: (lastValue: T) => void): () => void {
+    this.expireListeners.add(listener);
+
+    if (this.expireListeners.size === 1) {
+      this.detachExpire = this.manager.onExpire((key, lastValue) => {
+        if (key !== this.key) return;
+
+        this.expireListeners.forEach((expireListener) =>
+          expireListener(lastValue as T)
+        );
+      });
+    }
+
+    const missed = this.missedExpiry;
+
+    if (missed) {
+      this.missedExpiry = null;
+      listener(missed.lastValue);
+    }
+
+    return () => {
+      this.expireListeners.delete(listener);
+
+      if (this.expireListeners.size === 0) {
+        this.detachExpire?.();
+        this.detachExpire = null;
+      }
+    };
+  }
+
+  /**
+   * Current value, or null when nothing valid is stored. The deserialized
+   * value is cached against the raw string so snapshots stay referentially
+   * stable until the stored data actually changes.
+   */
+  getSnapshot(options: LocalStorageOptions<T>): T | null {
+    const adapter = this.manager.getAdapter();
+
+    // Without storage (SSR, disabled storage) behave like useState
+    if (!adapter.isAvailable()) return this.fallback;
+
+    // Show deferred and async writes right away instead of the value they
+    // replace
+    if (this.deferred) return this.deferred.value;
+    if (this.pendingWrite) return this.pendingWrite.value;
+
+    const raw = this.readRaw();
+
+    if (this.cache && this.cache.raw === raw) {
+      if (this.isRenewalDue(options)) this.scheduleRead(options);
+
+      return this.cache.value;
+    }
+
+    if (raw !== null && this.manager.usesWebCrypto(options)) {
+      return this.decrypt(raw, options);
+    }
+
+    // Rendering must not write to storage or notify subscribers, so the
+    // value is only peeked here and the read is applied afterwards
+    const value = this.manager.peekItem<T>(this.key, options);
+    this.cache = { raw, value };
+    this.scheduleRead(options);
+
+    return value;
+  }
+
+  /**
+   * Read the entry through the manager after render, so an expired entry is
+   * removed, an outdated one migrated, an invalid one reported (or purged)
+   * and a sliding TTL renewed the way any other read would
+   */
+  private scheduleRead(options: LocalStorageOptions<T>): void {
+    const scheduled = this.pendingRead !== null;
+    this.pendingRead = { options };
+
+    if (!scheduled) queueMicrotask(() => this.applyRead());
+  }
+
+  private applyRead(): void {
+    const read = this.pendingRead;
+    if (!read) return;
+
+    this.pendingRead = null;
+
+    // Nobody can be told about an expiry yet, so keep it for later
+    const detachMissed =
+      this.expireListeners.size === 0
+        ? this.manager.onExpire((key, lastValue) => {
+            if (key === this.key) {
+              this.missedExpiry = { lastValue: lastValue as T };
+            }
+          })
+        : null;
+
+    // The store emits once below, instead of on each change the read makes
+    this.reading = true;
+    let value: T | null;
+
+    try {
+      // A sliding TTL is renewed below instead, keeping the cached value
+      value = this.manager.getItem<T>(this.key, {
+        ...read.options,
+        slidingTtl: false
+      });
+    } finally {
+      this.reading = false;
+      detachMissed?.();
+    }
+
+    const raw = this.readRaw();
+    // Keep the peeked value when the read didn't change anything
+    const changed = !this.cache || this.cache.raw !== raw;
+
+    if (changed) this.cache = { raw, value };
+
+    this.renew(read.options);
+
+    if (changed) this.emit();
+  }
+
+  /**
+   * Whether the first AES-GCM read is still decrypting, i.e. the stored value
+   * isn't known yet
+   */
+  isLoading(): boolean {
+    return (
+      this.decrypting !== null &&
+      this.cache === null &&
+      !this.pendingWrite &&
+      !this.deferred
+    );
+  }
+
+  /**
+   * Write the result of `update` applied to the current value. While the
+   * first decrypt is in flight the update waits for the decrypted value, so
+   * it can't overwrite the stored entry with one based on initialValue.
+   */
+  update(
+    update: (prevValue: T | null) => T,
+    options: LocalStorageOptions<T>
+  ): WriteResult {
+    if (this.isLoading() || this.queuedUpdates.length > 0) {
+      return new Promise((resolve) => {
+        this.queuedUpdates.push({ update, options, resolve });
+      });
+    }
+
+    return this.setValue(update(this.getSnapshot(options)), options);
+  }
+
+  setValue(value: T, options: LocalStorageOptions<T>): WriteResult {
+    // Keep the order of writes made while updates are waiting
+    if (this.queuedUpdates.length > 0) return this.update(() => value, options);
+
+    if (options.writeMode && this.manager.getAdapter().isAvailable()) {
+      return this.defer(value, options);
+    }
+
+    // An immediate write replaces a deferred one
+    this.cancelDeferred();
+
+    return this.write(value, options);
+  }
+
+  /**
+   * Write a deferred value now. Returns true when nothing was pending.
+   */
+  flush(): WriteResult {
+    if (this.deferTimer) {
+      clearTimeout(this.deferTimer);
+      this.deferTimer = null;
+    }
+
+    const deferred = this.deferred;
+    if (!deferred) return true;
+
+    this.deferred = null;
+    deferredStores.delete(this as LocalStorageStore<unknown>);
+    this.lastWriteAt = Date.now();
+
+    const result = this.write(deferred.value, deferred.options);
+
+    // Show the stored value again when the write didn't go through
+    if (result === false) this.emit();
+
+    return result;
+  }
+
+  private write(value: T, options: LocalStorageOptions<T>): WriteResult {
+    if (
+      this.manager.usesWebCrypto(options) &&
+      this.manager.getAdapter().isAvailable()
+    ) {
+      return this.encrypt(value, options);
+    }
+
+    this.writing = true;
+    let result: boolean | "unavailable";
+
+    try {
+      result = this.manager.setItem(this.key, value, options);
+    } finally {
+      this.writing = false;
+    }
+
+    if (result === "unavailable") {
+      this.fallback = value;
+      this.emit();
+    } else if (result) {
+      // Prime the cache so readers don't need to deserialize what was just
+      // written
+      this.cache = { raw: this.readRaw(), value };
+      this.emit();
+    }
+
+    return result;
+  }
+
+  remove(): void {
+    this.fallback = null;
+    this.pendingWrite = null;
+    this.cancelDeferred();
+    this.manager.removeItem(this.key);
+    this.emit();
+  }
+
+  /**
+   * Drop the cached value and re-read it from storage
+   */
+  refresh(): void {
+    this.cache = null;
+    this.emit();
+  }
+
+  /**
+   * Reads, cached ones included, count as an access for a sliding TTL. Only
+   * the stored expiry changes, so the cached value is kept.
+   */
+  private renew(options: LocalStorageOptions<T>): void {
+    if (!this.cache || !this.isRenewalDue(options)) return;
+
+    this.lastRenewAt = Date.now();
+
+    if (this.manager.renewItem(this.key, options)) {
+      this.cache = { raw: this.readRaw(), value: this.cache.value };
+    }
+  }
+
+  private isRenewalDue(options: LocalStorageOptions<T>): boolean {
+    const renewInterval = getRenewInterval(options);
+
+    return (
+      renewInterval !== null &&
+      this.cache !== null &&
+      this.cache.raw !== null &&
+      Date.now() - this.lastRenewAt >= renewInterval
+    );
+  }
+
+  /**
+   * Hold a write back: debounced writes wait until `wait` ms pass without
+   * another change, throttled writes happen at most once per `wait` ms
+   */
+  private defer(value: T, options: LocalStorageOptions<T>): WriteResult {
+    const { type, wait } = options.writeMode!;
+
+    this.deferred = { value, options };
+    deferredStores.add(this as LocalStorageStore<unknown>);
+    listenForUnload();
+    this.emit();
+
+    if (type === "debounce") {
+      if (this.deferTimer) clearTimeout(this.deferTimer);
+      this.deferTimer = setTimeout(() => this.flush(), wait);
+
+      return true;
+    }
+
+    if (this.deferTimer) return true;
+
+    const delay = this.lastWriteAt + wait - Date.now();
+    if (delay <= 0) return this.flush();
+
+    this.deferTimer = setTimeout(() => this.flush(), delay);
+
+    return true;
+  }
+
+  private cancelDeferred(): void {
+    if (this.deferTimer) {
+      clearTimeout(this.deferTimer);
+      this.deferTimer = null;
+    }
+
+    this.deferred = null;
+    deferredStores.delete(this as LocalStorageStore<unknown>);
+  }
+
+  /**
+   * Start decrypting `raw` and keep returning the last known value until it
+   * resolves, so snapshots stay stable in the meantime
+   */
+  private decrypt(raw: string, options: LocalStorageOptions<T>): T | null {
+    if (this.decrypting?.raw !== raw) {
+      const read = { raw };
+      this.decrypting = read;
+
+      this.manager.getItemAsync<T>(this.key, options).then((value) => {
+        if (this.decrypting !== read) return;
+
+        this.decrypting = null;
+        this.cache = { raw: this.readRaw(), value };
+        this.applyQueuedUpdates();
+        this.emit();
+      });
+    }
+
+    return this.cache ? this.cache.value : null;
+  }
+
+  private applyQueuedUpdates(): void {
+    const updates = this.queuedUpdates;
+    this.queuedUpdates = [];
+
+    // Each update sees the value written by the one before
+    updates.forEach(({ update, options, resolve }) => {
+      Promise.resolve(
+        this.setValue(update(this.getSnapshot(options)), options)
+      ).then(resolve);
+    });
+  }
+
+  /**
+   * Queue an async write. Writes run one at a time so the last value set is
+   * the one that ends up stored; superseded writes are skipped.
+   */
+  private encrypt(
+    value: T,
+    options: LocalStorageOptions<T>
+  ): Promise<boolean | "unavailable"> {
+    const write = { value };
+    this.pendingWrite = write;
+    this.emit();
+
+    const result = this.writeQueue.then(async () => {
+      if (this.pendingWrite !== write) return true;
+
+      const written = await this.manager.setItemAsync(this.key, value, options);
+
+      if (this.pendingWrite === write) {
+        this.pendingWrite = null;
+        if (written === true) this.cache = { raw: this.readRaw(), value };
+        this.emit();
+      }
+
+      return written;
+    });
+
+    this.writeQueue = result;
+
+    return result;
+  }
+
+  private readRaw(): string | null {
+    try {
+      return this.manager.getAdapter().getItem(this.manager.getKey(this.key));
+    } catch {
+      return null;
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private handleChange = (): void => {
+    if (this.reading || this.writing) return;
+
+    this.emit();
+  };
+
+  private attach(): void {
+    const adapter = this.manager.getAdapter();
+    const storageKey = this.manager.getKey(this.key);
+
+    // Covers local writes as well as other tabs (broadcast channel or
+    // storage events, depending on the manager and adapter)
+    const unsubscribeManager = this.manager.subscribe((changedKey) => {
+      if (changedKey === null || changedKey === this.key) this.handleChange();
+    });
+
+    // Writes from other manager instances sharing the same storage
+    const handleCustomStorageChange = (
+      e: CustomEvent<LocalStorageEventDetail<T>>
+    ) => {
+      const { detail } = e;
+
+      // Already heard through the manager subscription
+      if (this.manager.isOwnEvent(e)) return;
+
+      if (detail.storageArea && detail.storageArea !== adapter.name) return;
+
+      const changedKeys = detail.storageKeys ?? [
+        detail.storageKey ?? detail.key
+      ];
+
+      if (changedKeys.includes(storageKey)) this.handleChange();
+    };
+
+    if (typeof window !== "undefined") {
+      window.addEventListener(
+        "localStorageChange",
+        handleCustomStorageChange as EventListener
+      );
+    }
+
+    this.detach = () => {
+      unsubscribeManager();
+
+      if (typeof window !== "undefined") {
+        window.removeEventListener(
+          "localStorageChange",
+          handleCustomStorageChange as EventListener
+        );
+      }
+    };
+  }
+}
+
+// Stores holding a deferred write, flushed before the page goes away
+const deferredStores = new Set<LocalStorageStore<unknown>>();
+let listeningForUnload = false;
+
+function flushDeferredWrites(): void {
+  deferredStores.forEach((store) => store.flush());
+}
+
+function listenForUnload(): void {
+  if (listeningForUnload || typeof window === "undefined") return;
+
+  // pagehide also covers mobile browsers and the back/forward cache, where
+  // beforeunload isn't fired
+  window.addEventListener("beforeunload", flushDeferredWrites);
+  window.addEventListener("pagehide", flushDeferredWrites);
+  listeningForUnload = true;
+}
+
+const stores = new WeakMap<
+  LocalStorageManager,
+  Map<string, LocalStorageStore<unknown>>
+>();
+
+/**
+ * Get the shared store for a key of a manager
+ */
+export function getLocalStorageStore<T>(
+  manager: LocalStorageManager,
+  key: string
+): LocalStorageStore<T> {
+  let managerStores = stores.get(manager);
+
+  if (!managerStores) {
+    managerStores = new Map();
+    stores.set(manager, managerStores);
+  }
+
+  let store = managerStores.get(key);
+
+  if (!store) {
+    store = new LocalStorageStore<unknown>(manager, key);
+    managerStores.set(key, store);
+  }
+
+  return store as LocalStorageStore<T>;
+}
@@ -1,37 +1,148 @@
+import type { IndexedDBStorageManager } from "./indexedDB.utils";
+import type { LocalStorageManager } from "./localStorage.utils";
+
 export type ExpiringLocalStorageValue<T> = {
   value: T;
   expiresAt: number | null;
   createdAt: number;
   version?: string;
+  codec?: string; // Set when `value` holds an encoded (e.g. compressed) payload
+  priority?: number; // Eviction priority, lower is evicted first
+  signature?: string; // HMAC of the other fields when written with `sign`
+};
+
+export type SafeParseResult<T> =
+  | { success: true; data?: T; output?: T }
+  | { success: false; error?: unknown; issues?: unknown };
+
+// Type guard, or a schema exposing a zod/valibot-style safeParse
+export type LocalStorageValidator<T> =
+  | ((value: unknown) => value is T)
+  | ((value: unknown) => boolean)
+  | { safeParse: (value: unknown) => SafeParseResult<T> };
+
+export type LocalStorageMigration = {
+  to: string; // Version produced by this step
+  migrate: (value: unknown) => unknown;
+};
+
+// Keyed by the version the step migrates from
+export type LocalStorageMigrations = Record<string, LocalStorageMigration>;
+
+export type CompressionOptions = {
+  threshold?: number; // Minimum serialized length (in chars) to compress
+};
+
+export type EncryptionAlgorithm =
+  | "crypto-js" // Legacy AES passphrase mode, synchronous
+  | "aes-gcm"; // Web Crypto AES-GCM with PBKDF2, asynchronous
+
+export type EncryptionOptions = {
+  algorithm: EncryptionAlgorithm;
+  iterations?: number; // PBKDF2 iterations for "aes-gcm"
+};
+
+export type SlidingTtlOptions = {
+  renewInterval?: number; // Minimum ms between renewals (default ttl / 10)
+};
+
+export type WriteMode = {
+  type: "debounce" | "throttle";
+  wait: number; // Milliseconds
 };
 
 export type LocalStorageOptions<T = unknown> = {
   ttl?: number; // Time to live in milliseconds
   autoEncrypt?: boolean;
   secretKey?: string; // For encryption, if autoEncrypt is true
+  encryption?: EncryptionAlgorithm | EncryptionOptions; // Default "crypto-js"
+  fallbackSecretKeys?: string[]; // Tried in order when secretKey can't decrypt
+  sign?: string; // HMAC key; entries with a missing or wrong signature are rejected
   serialize?: (value: T) => string;
   deserialize?: (value: string) => T;
   syncAcrossTabs?: boolean;
   version?: string; // For data migration
+  manager?: LocalStorageManager; // Defaults to the shared localStorage manager
+  validate?: LocalStorageValidator<T>; // Checked on every read
+  purgeInvalid?: boolean; // Remove entries that fail validation
+  migrations?: LocalStorageMigrations; // Upgrades entries written by older versions
+  compress?: boolean | CompressionOptions; // LZ-compress large values
+  priority?: number; // Used by the "priority" eviction strategy (default 0)
+  writeMode?: WriteMode; // Defer persistence; state still updates immediately
+  slidingTtl?: boolean | SlidingTtlOptions; // Reads renew the TTL
+  onExpire?: (key: string, lastValue: T) => void; // Called when the TTL runs out
+};
+
+// Options that can be set once for every hook below a LocalStorageProvider
+export type LocalStorageDefaults = Pick<
+  LocalStorageOptions,
+  | "ttl"
+  | "autoEncrypt"
+  | "secretKey"
+  | "encryption"
+  | "fallbackSecretKeys"
+  | "syncAcrossTabs"
+  | "version"
+  | "purgeInvalid"
+  | "compress"
+>;
+
+export type UseLocalStorageMultipleOptions<T extends Record<string, unknown>> =
+  LocalStorageOptions<unknown> & {
+    // Per-key overrides of the shared options (TTL, encryption, validation...)
+    keyOptions?: { [K in keyof T]?: LocalStorageOptions<T[K]> };
+  };
+
+// Persisted state of useLocalStorageHistory
+export type LocalStorageHistory<T> = {
+  past: T[]; // Oldest first
+  present: T;
+  future: T[]; // Next redo first
+  checkpoint: boolean; // The next change starts a new undo step
 };
 
+export type UseLocalStorageHistoryOptions<T> = LocalStorageOptions<
+  LocalStorageHistory<T>
+> & {
+  limit?: number; // Maximum undo steps kept (default 100)
+  manualCheckpoints?: boolean; // Group changes until checkpoint() is called
+};
+
+export type UseLocalStorageReducerOptions<S, P = S> = LocalStorageOptions<P> & {
+  persistSelector?: (state: S) => P; // Part of the state that is written
+  merge?: (state: S, persisted: P) => S; // Default: shallow merge for objects
+};
+
+export type UseLocalStorageFormOptions<T extends Record<string, unknown>> =
+  LocalStorageOptions<Partial<T>> & {
+    debounce?: number; // Delay before a change is written (default 500ms)
+    exclude?: (keyof T)[]; // Fields never written, e.g. passwords
+    autoRestore?: boolean; // Apply a stored draft on mount (default false)
+  };
+
 export type UseLocalStorageReturn<T> = [
   T,
   {
     setValue: (value: T | ((prevValue: T) => T)) => void;
     removeValue: () => void;
     refreshValue: () => void;
+    flush: () => void; // Write a deferred value now (see `writeMode`)
     isExpired: () => boolean;
     getCreatedAt: () => number | null;
     getExpiresAt: () => number | null;
     getRemainingTime: () => number | null;
+    isLoading: boolean; // The stored AES-GCM value is still decrypting
   }
 ];
 
 export type LocalStorageEventDetail<T> = {
-  key: string;
+  key: string | null; // null for a transaction, see keys
   newValue: T;
   oldValue: T;
+  storageKey?: string; // Key including the manager prefix
+  storageArea?: string; // Name of the adapter that performed the write
+  keys?: string[]; // Keys written by a transaction
+  storageKeys?: string[]; // The same keys including the manager prefix
 };
 
 export type LocalStorageError = {
@@ -39,13 +150,170 @@ export type LocalStorageError = {
     | "QUOTA_EXCEEDED"
     | "SERIALIZATION_ERROR"
     | "DESERIALIZATION_ERROR"
+    | "VALIDATION_ERROR"
+    | "MIGRATION_ERROR"
+    | "INTEGRITY_ERROR"
     | "UNKNOWN_ERROR";
   message: string;
   originalError?: Error;
 };
 
+export type StorageAdapter = {
+  name: string; // Identifies the backing store, e.g. "localStorage"
+  isAvailable: () => boolean;
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+  keys: () => string[];
+  // Listen for changes made outside this document (e.g. other tabs).
+  // Omitted by stores that are not shared between tabs.
+  subscribe?: (listener: (key: string | null) => void) => () => void;
+};
+
+export type LocalStorageChangeMessage = {
+  type: "set" | "remove" | "clear" | "batch" | "expired";
+  key: string | null; // Unprefixed key, null for clear and batch
+  keys?: string[]; // Keys changed by a batch
+  prefix: string;
+  storageArea: string; // Name of the adapter that performed the write
+  version: string; // Manager version of the sender
+  originId: string; // Tab that sent the message
+  timestamp: number;
+};
+
+export type EvictionStrategy =
+  | "lru" // Least recently read or written
+  | "oldest" // Oldest createdAt
+  | "soonest-expiring" // Closest expiresAt, entries without TTL last
+  | "priority"; // Lowest priority, then least recently used
+
+export type EvictionOptions = {
+  strategy: EvictionStrategy;
+  onEvict?: (keys: string[]) => void; // Unprefixed keys removed to make room
+};
+
+export type LocalStorageTransaction = {
+  set: <T>(key: string, value: T, options?: LocalStorageOptions<T>) => void;
+  remove: (key: string) => void;
+};
+
 export type LocalStorageManagerOptions = {
   prefix?: string;
   version?: string;
   onError?: (error: LocalStorageError) => void;
+  adapter?: StorageAdapter; // Defaults to window.localStorage
+  // Sync tabs through a BroadcastChannel (true or a channel name). Falls back
+  // to storage events when BroadcastChannel isn't supported.
+  broadcastChannel?: boolean | string;
+  // Free space among this manager's entries and retry once when a write
+  // exceeds the storage quota
+  eviction?: EvictionStrategy | EvictionOptions;
+  quota?: number; // Storage limit in bytes used for reporting (default 5MB)
 };
+
+export type KeyRotationOptions = {
+  oldKey: string;
+  newKey: string;
+  prefix?: string; // Only rotate keys starting with this (after the manager prefix)
+  // Re-encrypt with this algorithm instead of keeping each entry's own
+  encryption?: EncryptionAlgorithm | EncryptionOptions;
+};
+
+export type KeyRotationResult = {
+  rotated: string[];
+  skipped: string[]; // Unencrypted, or already encrypted with newKey
+  failed: { key: string; error: Error }[];
+};
+
+export type BackupManifest = {
+  format: string; // Identifies backups made by this library
+  libraryVersion: string;
+  version: string; // Version of the manager that made the backup
+  prefix: string; // Prefix of the manager that made the backup
+  createdAt: number;
+  keyCount: number;
+  checksum: string; // SHA-256 of the entries (or encrypted payload)
+  encrypted: boolean;
+};
+
+export type BackupExportOptions = {
+  keys?: string[]; // Unprefixed keys to include, defaults to all of them
+  passphrase?: string; // Encrypt the whole backup
+};
+
+export type BackupImportStrategy =
+  | "overwrite"
+  | "skip-existing"
+  | "newest-wins"; // Compare envelope createdAt
+
+export type BackupImportOptions = {
+  strategy?: BackupImportStrategy; // Defaults to "overwrite"
+  keys?: string[]; // Only import these unprefixed keys
+  passphrase?: string; // Required for encrypted backups
+  dryRun?: boolean; // Report what would happen without writing
+};
+
+export type BackupImportReport = {
+  manifest: BackupManifest | null;
+  imported: string[];
+  skipped: string[];
+  failed: { key: string; error: Error }[];
+  dryRun: boolean;
+  error?: Error; // Set when the backup itself couldn't be read
+};
+
+export type StorageUsageEntry = {
+  key: string; // Key as stored, including any prefix
+  bytes: number; // UTF-16 size of the key and value
+  owned: boolean; // Written by this manager
+};
+
+export type StorageUsage = {
+  used: number; // Bytes used by every key in the storage
+  total: number;
+  remaining: number;
+  library: number; // Bytes used by this manager's entries
+  foreign: number; // Bytes used by other keys in the same storage
+  byKey: Record<string, number>; // Keyed by the stored (prefixed) key
+  byPrefix: Record<string, number>; // Segment before the first ":", "" if none
+  largest: StorageUsageEntry[];
+};
+
+// Origin-wide figures from navigator.storage.estimate (covers IndexedDB and
+// caches as well as Web Storage)
+export type StorageQuotaEstimate = {
+  usage: number;
+  quota: number;
+};
+
+export type UseLocalStorageUsageReturn = StorageUsage & {
+  estimate: StorageQuotaEstimate | null;
+  refresh: () => void;
+};
+
+export type IndexedDBStorageManagerOptions = {
+  prefix?: string;
+  version?: string;
+  dbName?: string;
+  storeName?: string;
+  indexedDB?: IDBFactory; // Defaults to the global indexedDB
+  onError?: (error: LocalStorageError) => void;
+};
+
+export type IndexedDBStorageOptions<T = unknown> = Omit<
+  LocalStorageOptions<T>,
+  "manager"
+> & {
+  manager?: IndexedDBStorageManager;
+};
+
+export type UseIndexedDBStorageReturn<T> = [
+  T,
+  {
+    setValue: (value: T | ((prevValue: T) => T)) => Promise<void>;
+    removeValue: () => Promise<void>;
+    refreshValue: () => Promise<void>;
+    isLoading: boolean;
+    error: Error | null;
+  }
+];
@@ -0,0 +1,45 @@
+import { StorageQuotaEstimate } from "./localStorage.types";
+
+// Typical per-origin limit of localStorage and sessionStorage
+export const DEFAULT_QUOTA_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Size of a stored key/value pair in bytes. Web Storage keeps strings as
+ * UTF-16, so every code unit takes two bytes.
+ */
+export function getEntryBytes(key: string, value: string): number {
+  return (key.length + value.length) * 2;
+}
+
+/**
+ * Namespace of a storage key: the segment before the first ":", or "" for
+ * keys without a prefix
+ */
+export function getKeyNamespace(storageKey: string): string {
+  const index = storageKey.indexOf(":");
+
+  return index === -1 ? "" : storageKey.slice(0, index);
+}
+
+/**
+ * Origin-wide usage and quota from `navigator.storage.estimate`, or null
+ * where the Storage API isn't supported
+ */
+export async function estimateQuota(): Promise<StorageQuotaEstimate | null> {
+  if (
+    typeof navigator === "undefined" ||
+    !navigator.storage ||
+    typeof navigator.storage.estimate !== "function"
+  ) {
+    return null;
+  }
+
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    if (usage === undefined || quota === undefined) return null;
+
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+}
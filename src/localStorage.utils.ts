@@ -1,11 +1,86 @@
 /* eslint-disable no-console */
-import * as CryptoJS from "crypto-js";
-
 import {
+  localStorageAdapter,
+  sessionStorageAdapter
+} from "./localStorage.adapters";
+import {
+  createBackup,
+  getEntryCreatedAt,
+  readBackup
+} from "./localStorage.backup";
+import {
+  BroadcastTransport,
+  createBroadcastTransport,
+  TAB_ID
+} from "./localStorage.broadcast";
+import {
+  compressValue,
+  decompressValue,
+  getCompressionThreshold,
+  LZ_UTF16_CODEC
+} from "./localStorage.compression";
+import {
+  decryptPayload,
+  decryptValue,
+  decryptWithKeys,
+  decryptWithKeysAsync,
+  decryptWithWebCrypto,
+  encryptValue,
+  encryptWithWebCrypto,
+  getPayloadIterations,
+  getSecretKeys,
+  getWebCryptoIterations,
+  isWebCryptoPayload
+} from "./localStorage.crypto";
+import {
+  EvictionCandidate,
+  isQuotaExceededError,
+  selectEvictions
+} from "./localStorage.eviction";
+import {
+  ExpirationScheduler,
+  getRenewInterval,
+  renewEntry
+} from "./localStorage.expiration";
+import { runMigrations } from "./localStorage.migrations";
+import {
+  createIntegrityError,
+  signEntry,
+  verifyEntry
+} from "./localStorage.signature";
+import {
+  BackupExportOptions,
+  BackupImportOptions,
+  BackupImportReport,
+  BackupImportStrategy,
+  EvictionOptions,
   ExpiringLocalStorageValue,
+  KeyRotationOptions,
+  KeyRotationResult,
+  LocalStorageChangeMessage,
   LocalStorageError,
-  LocalStorageOptions
+  LocalStorageEventDetail,
+  LocalStorageManagerOptions,
+  LocalStorageOptions,
+  LocalStorageTransaction,
+  StorageAdapter,
+  StorageUsage,
+  StorageUsageEntry
 } from "./localStorage.types";
+import {
+  DEFAULT_QUOTA_BYTES,
+  getEntryBytes,
+  getKeyNamespace
+} from "./localStorage.usage";
+import { validateValue } from "./localStorage.validation";
+
+type TransactionOperation = {
+  key: string;
+  value?: unknown;
+  options?: LocalStorageOptions<unknown>;
+  serialized: string | null; // null for removals
+  expiresAt?: number | null;
+};
 
 /**
  * Utility class for advanced localStorage operations
@@ -14,23 +89,158 @@ export class LocalStorageManager {
   private prefix: string;
   private version: string;
   private onError?: (error: LocalStorageError) => void;
-
-  constructor(
-    options: {
-      prefix?: string;
-      version?: string;
-      onError?: (error: LocalStorageError) => void;
-    } = {}
-  ) {
+  private adapter: StorageAdapter;
+  private listeners = new Set<(key: string | null) => void>();
+  private expireListeners = new Set<
+    (key: string, lastValue: unknown) => void
+  >();
+  private transport: BroadcastTransport | null;
+  private detachExternal: (() => void) | null = null;
+  private eviction: EvictionOptions | null;
+  // Last read/write per key in this session, used by LRU eviction. Keys not
+  // touched since the page loaded fall back to their createdAt.
+  private accessTimes = new Map<string, number>();
+  private quota: number;
+  private scheduler = new ExpirationScheduler((key, options) =>
+    this.checkExpiry(key, options)
+  );
+  // localStorageChange events dispatched here, already seen by subscribers
+  private dispatchedEvents = new WeakSet<Event>();
+
+  constructor(options: LocalStorageManagerOptions = {}) {
     this.prefix = options.prefix || "";
     this.version = options.version || "1.0.0";
     this.onError = options.onError;
+    this.adapter = options.adapter || localStorageAdapter;
+    this.transport = options.broadcastChannel
+      ? createBroadcastTransport(
+          typeof options.broadcastChannel === "string"
+            ? options.broadcastChannel
+            : undefined
+        )
+      : null;
+    this.eviction =
+      typeof options.eviction === "string"
+        ? { strategy: options.eviction }
+        : options.eviction || null;
+    this.quota = options.quota || DEFAULT_QUOTA_BYTES;
   }
 
-  private getKey(key: string): string {
+  /**
+   * Get the storage adapter used by this manager
+   */
+  getAdapter(): StorageAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Get the full key (including prefix) used in the underlying storage
+   */
+  getKey(key: string): string {
     return this.prefix ? `${this.prefix}:${key}` : key;
   }
 
+  /**
+   * Subscribe to changes made through this manager or, via the broadcast
+   * channel and storage events, in other tabs. The listener receives the
+   * unprefixed key, or null when every key may have changed (e.g. clear).
+   */
+  subscribe(listener: (key: string | null) => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.attachExternal();
+
+    return () => {
+      this.listeners.delete(listener);
+
+      if (this.listeners.size === 0 && this.detachExternal) {
+        this.detachExternal();
+        this.detachExternal = null;
+      }
+    };
+  }
+
+  /**
+   * Whether a `localStorageChange` event was dispatched by this manager, so
+   * subscribers that also listen to the event can skip its own writes
+   */
+  isOwnEvent(event: Event): boolean {
+    return this.dispatchedEvents.has(event);
+  }
+
+  /**
+   * Subscribe to entries of this manager that expire in this tab. The
+   * listener receives the unprefixed key and the value the entry held.
+   */
+  onExpire(listener: (key: string, lastValue: unknown) => void): () => void {
+    this.expireListeners.add(listener);
+
+    return () => {
+      this.expireListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Close the broadcast channel, if any
+   */
+  close(): void {
+    this.detachExternal?.();
+    this.detachExternal = null;
+    this.transport?.close();
+  }
+
+  private emit(key: string | null): void {
+    this.listeners.forEach((listener) => listener(key));
+  }
+
+  private notify(
+    type: LocalStorageChangeMessage["type"],
+    key: string | null,
+    broadcast: boolean = true,
+    keys?: string[]
+  ): void {
+    this.emit(key);
+
+    if (broadcast && this.transport) {
+      this.transport.post({
+        type,
+        key,
+        ...(keys && { keys }),
+        prefix: this.prefix,
+        storageArea: this.adapter.name,
+        version: this.version,
+        originId: TAB_ID,
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  private attachExternal(): void {
+    const prefix = this.prefix ? `${this.prefix}:` : "";
+
+    const detachTransport = this.transport?.subscribe((message) => {
+      if (
+        message.storageArea === this.adapter.name &&
+        message.prefix === this.prefix
+      ) {
+        this.emit(message.key);
+      }
+    });
+
+    // Storage events still cover tabs that don't use the broadcast channel
+    const detachAdapter = this.adapter.subscribe?.((storageKey) => {
+      if (storageKey === null) {
+        this.emit(null);
+      } else if (storageKey.startsWith(prefix)) {
+        this.emit(storageKey.slice(prefix.length));
+      }
+    });
+
+    this.detachExternal = () => {
+      detachTransport?.();
+      detachAdapter?.();
+    };
+  }
+
   private handleError(error: LocalStorageError): void {
     if (this.onError) {
       this.onError(error);
@@ -47,21 +257,416 @@ export class LocalStorageManager {
     return JSON.parse(value);
   }
 
-  private encrypt<T>(data: T, secretKey: string): string {
-    const stringified = JSON.stringify(data);
+  private serializeEntry<T>(
+    data: ExpiringLocalStorageValue<T>,
+    options: LocalStorageOptions<T>
+  ): string {
+    if (this.usesWebCrypto(options)) {
+      throw new Error(
+        "AES-GCM encryption is asynchronous, use setItemAsync instead"
+      );
+    }
+
+    if (options.autoEncrypt && options.secretKey) {
+      // Use encryption - serialize the data and then encrypt it
+      const serializedForEncryption = options.serialize
+        ? options.serialize(data as T)
+        : this.defaultSerialize(data);
+
+      return encryptValue(serializedForEncryption, options.secretKey);
+    }
+
+    // Use normal serialization
+    const serialize = options.serialize || this.defaultSerialize;
+
+    return serialize(data as T);
+  }
+
+  private deserializeEntry<T>(
+    key: string,
+    item: string,
+    options: LocalStorageOptions<T>
+  ): ExpiringLocalStorageValue<T> {
+    const deserialize = options.deserialize || this.defaultDeserialize;
+    let data: ExpiringLocalStorageValue<T>;
+
+    if (isWebCryptoPayload(item)) {
+      throw new Error(
+        "Entry is encrypted with AES-GCM, use getItemAsync instead"
+      );
+    }
 
-    return CryptoJS.AES.encrypt(stringified, secretKey).toString();
+    if (options.autoEncrypt && options.secretKey) {
+      // Decrypt the data first, then deserialize. Fallback keys are tried
+      // when the current key fails, e.g. during a key rotation.
+      data = decryptWithKeys(
+        getSecretKeys(options),
+        (secretKey) =>
+          deserialize(
+            decryptValue<string>(item, secretKey)
+          ) as ExpiringLocalStorageValue<T>
+      );
+    } else {
+      // Use normal deserialization
+      data = deserialize(item) as ExpiringLocalStorageValue<T>;
+    }
+
+    return this.unpackEntry(key, data, options);
   }
 
-  private decrypt<T>(cipher: string, secretKey: string): T {
-    try {
-      const bytes = CryptoJS.AES.decrypt(cipher, secretKey);
-      const decrypted = bytes.toString(CryptoJS.enc.Utf8);
+  /**
+   * Whether entries are written with Web Crypto AES-GCM
+   */
+  usesWebCrypto<T>(options: LocalStorageOptions<T>): boolean {
+    return (
+      !!options.autoEncrypt &&
+      !!options.secretKey &&
+      getWebCryptoIterations(options.encryption) !== null
+    );
+  }
+
+  private async serializeEntryAsync<T>(
+    data: ExpiringLocalStorageValue<T>,
+    options: LocalStorageOptions<T>
+  ): Promise<string> {
+    const iterations = getWebCryptoIterations(options.encryption);
+
+    if (!this.usesWebCrypto(options) || iterations === null) {
+      return this.serializeEntry(data, options);
+    }
+
+    const serialized = options.serialize
+      ? options.serialize(data as T)
+      : this.defaultSerialize(data);
+
+    return encryptWithWebCrypto(
+      serialized,
+      options.secretKey as string,
+      iterations
+    );
+  }
+
+  // Legacy crypto-js and plain entries are still read through
+  // deserializeEntry, so switching to AES-GCM doesn't lock users out
+  private async deserializeEntryAsync<T>(
+    key: string,
+    item: string,
+    options: LocalStorageOptions<T>
+  ): Promise<ExpiringLocalStorageValue<T>> {
+    if (!isWebCryptoPayload(item)) {
+      return this.deserializeEntry(key, item, options);
+    }
+
+    if (!options.secretKey) {
+      throw new Error("A secretKey is required to read AES-GCM entries");
+    }
+
+    const decrypted = await decryptWithKeysAsync(
+      getSecretKeys(options),
+      (secretKey) => decryptWithWebCrypto(item, secretKey)
+    );
+    const deserialize = options.deserialize || this.defaultDeserialize;
+
+    return this.unpackEntry(
+      key,
+      deserialize(decrypted) as ExpiringLocalStorageValue<T>,
+      options
+    );
+  }
+
+  /**
+   * Replace the value with its compressed form when `compress` is enabled
+   * and the value is large enough to benefit from it
+   */
+  private compressEntry<T>(
+    data: ExpiringLocalStorageValue<T>,
+    options: LocalStorageOptions<T>
+  ): ExpiringLocalStorageValue<T> {
+    const threshold = getCompressionThreshold(options.compress);
+    if (threshold === null) return data;
+
+    const compressed = compressValue(data.value, threshold);
+    if (compressed === null) return data;
+
+    return {
+      ...data,
+      value: compressed as T,
+      codec: LZ_UTF16_CODEC
+    };
+  }
+
+  // Compressed entries are detected from the envelope, so reading doesn't
+  // depend on the `compress` option
+  private decompressEntry<T>(
+    data: ExpiringLocalStorageValue<T>
+  ): ExpiringLocalStorageValue<T> {
+    if (!data || data.codec !== LZ_UTF16_CODEC) return data;
+
+    return {
+      value: decompressValue<T>(data.value as string),
+      expiresAt: data.expiresAt,
+      createdAt: data.createdAt,
+      version: data.version,
+      priority: data.priority
+    };
+  }
+
+  /**
+   * Compress and sign an envelope according to the options, before it is
+   * serialized
+   */
+  private packEntry<T>(
+    data: ExpiringLocalStorageValue<T>,
+    options: LocalStorageOptions<T>
+  ): ExpiringLocalStorageValue<T> {
+    const packed = this.compressEntry(data, options);
+
+    return options.sign ? signEntry(packed, options.sign) : packed;
+  }
+
+  // The signature covers the stored (possibly compressed) form, so it is
+  // checked before decompressing
+  private unpackEntry<T>(
+    key: string,
+    data: ExpiringLocalStorageValue<T>,
+    options: LocalStorageOptions<T>
+  ): ExpiringLocalStorageValue<T> {
+    if (options.sign && !verifyEntry(data, options.sign)) {
+      throw createIntegrityError(key);
+    }
+
+    return this.decompressEntry(data);
+  }
+
+  /**
+   * Run the migration chain for an outdated entry. Returns null when the
+   * entry can't be upgraded.
+   */
+  private migrateEntry<T>(
+    key: string,
+    data: ExpiringLocalStorageValue<T>,
+    options: LocalStorageOptions<T>,
+    report: boolean = true
+  ): ExpiringLocalStorageValue<T> | null {
+    const targetVersion = options.version || this.version;
+    const storedVersion = data.version || this.version;
+
+    if (!options.migrations || storedVersion === targetVersion) return data;
+
+    const result = runMigrations(
+      data.value,
+      storedVersion,
+      targetVersion,
+      options.migrations
+    );
+
+    if (!result.migrated) {
+      if (!report) return null;
+
+      this.handleError({
+        type: "MIGRATION_ERROR",
+        message: `${result.message} for "${key}"`,
+        originalError: result.error
+      });
+
+      return null;
+    }
 
-      return JSON.parse(decrypted);
+    const migratedData: ExpiringLocalStorageValue<T> = {
+      ...data,
+      value: result.value as T,
+      version: targetVersion
+    };
+
+    return migratedData;
+  }
+
+  /**
+   * Expiry, migrations and validation shared by the sync and async reads.
+   * Upgraded entries are handed to `persist` so each path writes them back
+   * with its own serialization. Without `persist` the entry is only resolved:
+   * nothing is removed, renewed, written back or reported.
+   */
+  private resolveEntry<T>(
+    key: string,
+    data: ExpiringLocalStorageValue<T>,
+    options: LocalStorageOptions<T>,
+    persist: ((data: ExpiringLocalStorageValue<T>) => void) | null
+  ): T | null {
+    // Check if item has expired
+    if (data.expiresAt && Date.now() > data.expiresAt) {
+      if (persist) this.expireItem(key, data.value);
+
+      return null;
+    }
+
+    if (persist) {
+      this.accessTimes.set(key, Date.now());
+
+      const renewed = renewEntry(data, options);
+
+      if (renewed) {
+        persist(renewed);
+        data = renewed;
+      }
+
+      this.scheduler.schedule(key, data.expiresAt, options);
+    }
+
+    if (options.migrations) {
+      const migratedData = this.migrateEntry(key, data, options, !!persist);
+      if (!migratedData) return null;
+
+      if (persist && migratedData !== data) persist(migratedData);
+
+      data = migratedData;
+    }
+
+    if (options.validate) {
+      const result = validateValue(options.validate, data.value);
+
+      if (!result.valid) {
+        if (!persist) return null;
+
+        this.handleError({
+          type: "VALIDATION_ERROR",
+          message: `Stored value for "${key}" failed validation`,
+          originalError:
+            result.error instanceof Error ? result.error : undefined
+        });
+
+        if (options.purgeInvalid) this.removeItem(key);
+
+        return null;
+      }
+
+      return result.value;
+    }
+
+    return data.value;
+  }
+
+  /**
+   * Write a serialized entry. When the quota is exceeded and an eviction
+   * strategy is configured, other entries are evicted and the write is
+   * retried once.
+   */
+  private writeEntry(
+    key: string,
+    serializedData: string,
+    protectedKeys: string[] = [key]
+  ): void {
+    const storageKey = this.getKey(key);
+
+    try {
+      this.adapter.setItem(storageKey, serializedData);
     } catch (error) {
-      throw new Error(`Failed to decrypt data: ${error}`);
+      if (!this.eviction || !isQuotaExceededError(error)) throw error;
+
+      // The previous entry for this key is replaced, so its size counts
+      // towards the space needed
+      const existing = this.adapter.getItem(storageKey);
+      const bytesNeeded =
+        serializedData.length - (existing !== null ? existing.length : 0);
+
+      const evicted = this.evict(protectedKeys, Math.max(bytesNeeded, 1));
+      if (evicted.length === 0) throw error;
+
+      this.adapter.setItem(storageKey, serializedData);
     }
+
+    this.accessTimes.set(key, Date.now());
+  }
+
+  /**
+   * Remove entries owned by this manager to free at least `bytesNeeded`
+   * characters. Only entries with a readable envelope are considered, so
+   * foreign keys and encrypted entries are never evicted.
+   */
+  private evict(protectedKeys: string[], bytesNeeded: number): string[] {
+    if (!this.eviction) return [];
+
+    const candidates: EvictionCandidate[] = [];
+
+    this.getAllKeys().forEach((key) => {
+      if (protectedKeys.includes(key)) return;
+
+      const storageKey = this.getKey(key);
+
+      try {
+        const item = this.adapter.getItem(storageKey);
+        if (!item) return;
+
+        const data = JSON.parse(item) as ExpiringLocalStorageValue<unknown>;
+        if (!data || typeof data.createdAt !== "number") return;
+
+        candidates.push({
+          key,
+          size: storageKey.length + item.length,
+          createdAt: data.createdAt,
+          expiresAt: data.expiresAt ?? null,
+          lastAccessedAt: this.accessTimes.get(key) ?? data.createdAt,
+          priority: data.priority ?? 0
+        });
+      } catch {
+        // Not an entry written by this library
+      }
+    });
+
+    const evicted = selectEvictions(
+      candidates,
+      this.eviction.strategy,
+      bytesNeeded
+    );
+
+    evicted.forEach((key) => this.removeItem(key));
+
+    if (evicted.length > 0) this.eviction.onEvict?.(evicted);
+
+    return evicted;
+  }
+
+  private createEntry<T>(
+    value: T,
+    options: LocalStorageOptions<T>
+  ): ExpiringLocalStorageValue<T> {
+    return this.packEntry(
+      {
+        value,
+        expiresAt: options.ttl ? Date.now() + options.ttl : null,
+        createdAt: Date.now(),
+        version: options.version || this.version,
+        priority: options.priority
+      },
+      options
+    );
+  }
+
+  private reportWriteError(error: unknown): void {
+    const localStorageError: LocalStorageError = {
+      type: isQuotaExceededError(error)
+        ? "QUOTA_EXCEEDED"
+        : "SERIALIZATION_ERROR",
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      originalError: error instanceof Error ? error : undefined
+    };
+
+    this.handleError(localStorageError);
+  }
+
+  private reportReadError(error: unknown): void {
+    const localStorageError: LocalStorageError = {
+      type:
+        error instanceof Error && error.name === "IntegrityError"
+          ? "INTEGRITY_ERROR"
+          : "DESERIALIZATION_ERROR",
+      message:
+        error instanceof Error ? error.message : "Failed to deserialize data",
+      originalError: error instanceof Error ? error : undefined
+    };
+
+    this.handleError(localStorageError);
   }
 
   /**
@@ -72,56 +677,165 @@ export class LocalStorageManager {
     value: T,
     options: LocalStorageOptions<T>
   ): boolean | "unavailable" {
-    if (typeof window === "undefined" || !window.localStorage)
-      return "unavailable";
+    if (!this.adapter.isAvailable()) return "unavailable";
 
     try {
-      const expiresAt = options.ttl ? Date.now() + options.ttl : null;
+      const entry = this.createEntry(value, options);
+      const serializedData = this.serializeEntry(entry, options);
 
-      const dataToStore: ExpiringLocalStorageValue<T> = {
-        value,
-        expiresAt,
-        createdAt: Date.now(),
-        version: options.version || this.version
-      };
+      this.writeEntry(key, serializedData);
+      this.scheduler.schedule(key, entry.expiresAt, options);
+      this.notify("set", key, options.syncAcrossTabs !== false);
+
+      // Dispatch custom event for cross-tab synchronization
+      if (options.syncAcrossTabs !== false) {
+        this.dispatchStorageEvent(key, value, null);
+      }
 
-      let serializedData: string;
+      return true;
+    } catch (error) {
+      this.reportWriteError(error);
 
-      if (options.autoEncrypt && options.secretKey) {
-        // Use encryption - serialize the data and then encrypt it
-        const serializedForEncryption = options.serialize
-          ? options.serialize(dataToStore as T)
-          : this.defaultSerialize(dataToStore);
-        serializedData = this.encrypt(
-          serializedForEncryption,
-          options.secretKey
-        );
-      } else {
-        // Use normal serialization
-        const serialize = options.serialize || this.defaultSerialize;
-        serializedData = serialize(dataToStore as T);
+      return false;
+    }
+  }
+
+  /**
+   * Apply several writes and removals atomically. Affected keys are
+   * snapshotted first and restored if any write fails, and subscribers get a
+   * single notification for the whole batch.
+   */
+  transaction(
+    callback: (tx: LocalStorageTransaction) => void,
+    defaultOptions: LocalStorageOptions<unknown> = {}
+  ): boolean | "unavailable" {
+    if (!this.adapter.isAvailable()) return "unavailable";
+
+    const operations: TransactionOperation[] = [];
+    const snapshot = new Map<string, string | null>();
+
+    try {
+      callback({
+        set: (key, value, options) => {
+          const entryOptions = {
+            ...defaultOptions,
+            ...options
+          } as LocalStorageOptions<unknown>;
+
+          const entry = this.createEntry<unknown>(value, entryOptions);
+
+          operations.push({
+            key,
+            value,
+            options: entryOptions,
+            // Serialize up front so a bad value fails before anything is
+            // written
+            serialized: this.serializeEntry(entry, entryOptions),
+            expiresAt: entry.expiresAt
+          });
+        },
+        remove: (key) => {
+          operations.push({ key, serialized: null });
+        }
+      });
+
+      if (operations.length === 0) return true;
+
+      const keys = Array.from(new Set(operations.map(({ key }) => key)));
+
+      keys.forEach((key) => {
+        snapshot.set(key, this.adapter.getItem(this.getKey(key)));
+      });
+
+      operations.forEach(({ key, serialized }) => {
+        if (serialized === null) {
+          this.adapter.removeItem(this.getKey(key));
+          this.accessTimes.delete(key);
+        } else {
+          // Other keys of the transaction must not be evicted to make room
+          this.writeEntry(key, serialized, keys);
+        }
+      });
+
+      operations.forEach(({ key, options, serialized, expiresAt }) => {
+        if (serialized === null) {
+          this.scheduler.cancel(key);
+        } else {
+          this.scheduler.schedule(key, expiresAt ?? null, options || {});
+        }
+      });
+
+      this.notify("batch", null, true, keys);
+
+      const syncedKeys = operations
+        .filter(
+          ({ serialized, options }) =>
+            serialized !== null && options?.syncAcrossTabs !== false
+        )
+        .map(({ key }) => key);
+
+      // One event for the whole batch, listing the written keys
+      if (syncedKeys.length > 0) {
+        this.dispatchChangeEvent({
+          key: null,
+          keys: syncedKeys,
+          storageKeys: syncedKeys.map((key) => this.getKey(key)),
+          newValue: null,
+          oldValue: null,
+          storageArea: this.adapter.name
+        });
       }
 
-      window.localStorage.setItem(this.getKey(key), serializedData);
+      return true;
+    } catch (error) {
+      this.rollback(snapshot);
+      this.reportWriteError(error);
+
+      return false;
+    }
+  }
+
+  private rollback(snapshot: Map<string, string | null>): void {
+    snapshot.forEach((item, key) => {
+      try {
+        if (item === null) {
+          this.adapter.removeItem(this.getKey(key));
+        } else {
+          this.adapter.setItem(this.getKey(key), item);
+        }
+      } catch {
+        // Restoring a previous value can't exceed the quota it already fit
+        // in, so there is nothing sensible left to do here
+      }
+    });
+  }
+
+  /**
+   * Async counterpart of setItem, required for AES-GCM encryption. Other
+   * options behave exactly as in setItem.
+   */
+  async setItemAsync<T>(
+    key: string,
+    value: T,
+    options: LocalStorageOptions<T>
+  ): Promise<boolean | "unavailable"> {
+    if (!this.adapter.isAvailable()) return "unavailable";
+
+    try {
+      const entry = this.createEntry(value, options);
+      const serializedData = await this.serializeEntryAsync(entry, options);
+
+      this.writeEntry(key, serializedData);
+      this.scheduler.schedule(key, entry.expiresAt, options);
+      this.notify("set", key, options.syncAcrossTabs !== false);
 
-      // Dispatch custom event for cross-tab synchronization
       if (options.syncAcrossTabs !== false) {
-        this.dispatchStorageEvent(key, value, this.getItem(key));
+        this.dispatchStorageEvent(key, value, null);
       }
 
       return true;
     } catch (error) {
-      const localStorageError: LocalStorageError = {
-        type:
-          error instanceof Error && error.name === "QuotaExceededError"
-            ? "QUOTA_EXCEEDED"
-            : "SERIALIZATION_ERROR",
-        message:
-          error instanceof Error ? error.message : "Unknown error occurred",
-        originalError: error instanceof Error ? error : undefined
-      };
-
-      this.handleError(localStorageError);
+      this.reportWriteError(error);
 
       return false;
     }
@@ -134,60 +848,146 @@ export class LocalStorageManager {
     key: string,
     options: LocalStorageOptions<T> = {} as LocalStorageOptions<T>
   ): T | null {
-    if (typeof window === "undefined") return null;
+    if (!this.adapter.isAvailable()) return null;
 
     try {
-      const item = window.localStorage.getItem(this.getKey(key));
+      const item = this.adapter.getItem(this.getKey(key));
       if (!item) return null;
 
-      let data: ExpiringLocalStorageValue<T>;
-
-      if (options.autoEncrypt && options.secretKey) {
-        // Decrypt the data first, then deserialize
-        const decryptedData = this.decrypt(item, options.secretKey);
-        data = options.deserialize
-          ? (options.deserialize(
-              decryptedData as string
-            ) as ExpiringLocalStorageValue<T>)
-          : (this.defaultDeserialize(
-              decryptedData as string
-            ) as ExpiringLocalStorageValue<T>);
-      } else {
-        // Use normal deserialization
-        const deserialize = options.deserialize || this.defaultDeserialize;
-        data = deserialize(item as string) as ExpiringLocalStorageValue<T>;
-      }
+      const data = this.deserializeEntry(key, item, options);
+
+      return this.resolveEntry(key, data, options, (migratedData) => {
+        // A failed write-back doesn't invalidate the value just read
+        try {
+          this.adapter.setItem(
+            this.getKey(key),
+            this.serializeEntry(this.packEntry(migratedData, options), options)
+          );
+        } catch (error) {
+          this.reportWriteError(error);
+        }
+      });
+    } catch (error) {
+      this.reportReadError(error);
 
-      // Check if item has expired
-      if (data.expiresAt && Date.now() > data.expiresAt) {
-        this.removeItem(key);
+      return null;
+    }
+  }
 
-        return null;
-      }
+  /**
+   * Read a value without side effects, e.g. while rendering. An expired entry
+   * reads as null but is left in place, and upgrades, renewals and errors are
+   * left to the next getItem.
+   */
+  peekItem<T>(
+    key: string,
+    options: LocalStorageOptions<T> = {} as LocalStorageOptions<T>
+  ): T | null {
+    if (!this.adapter.isAvailable()) return null;
 
-      return data.value;
-    } catch (error) {
-      const localStorageError: LocalStorageError = {
-        type: "DESERIALIZATION_ERROR",
-        message:
-          error instanceof Error ? error.message : "Failed to deserialize data",
-        originalError: error instanceof Error ? error : undefined
-      };
+    try {
+      const item = this.adapter.getItem(this.getKey(key));
+      if (!item) return null;
 
-      this.handleError(localStorageError);
+      const data = this.deserializeEntry(key, item, options);
 
+      return this.resolveEntry(key, data, options, null);
+    } catch {
       return null;
     }
   }
 
+  /**
+   * Async counterpart of getItem, required to read AES-GCM entries. Reads
+   * legacy crypto-js and unencrypted entries as well.
+   */
+  async getItemAsync<T>(
+    key: string,
+    options: LocalStorageOptions<T> = {} as LocalStorageOptions<T>
+  ): Promise<T | null> {
+    if (!this.adapter.isAvailable()) return null;
+
+    try {
+      const item = this.adapter.getItem(this.getKey(key));
+      if (!item) return null;
+
+      const data = await this.deserializeEntryAsync(key, item, options);
+      // A renewal and a migration may both write back; chain them so the
+      // last one wins
+      let pendingWrite = Promise.resolve();
+
+      const value = this.resolveEntry(key, data, options, (migratedData) => {
+        pendingWrite = pendingWrite
+          .then(() =>
+            this.serializeEntryAsync(
+              this.packEntry(migratedData, options),
+              options
+            )
+          )
+          .then((serialized) =>
+            this.adapter.setItem(this.getKey(key), serialized)
+          )
+          .catch((error) => this.reportWriteError(error));
+      });
+
+      await pendingWrite;
+
+      return value;
+    } catch (error) {
+      this.reportReadError(error);
+
+      return null;
+    }
+  }
+
+  /**
+   * Extend the expiry of an entry with a sliding TTL, without reading its
+   * value. Returns true when the entry was renewed; renewals are skipped
+   * until the renewal interval has passed.
+   */
+  renewItem<T>(key: string, options: LocalStorageOptions<T>): boolean {
+    if (!this.adapter.isAvailable() || !getRenewInterval(options)) {
+      return false;
+    }
+
+    // AES-GCM entries are renewed by getItemAsync
+    if (this.usesWebCrypto(options)) return false;
+
+    try {
+      const item = this.adapter.getItem(this.getKey(key));
+      if (!item) return false;
+
+      const data = this.deserializeEntry(key, item, options);
+      if (data.expiresAt && Date.now() > data.expiresAt) return false;
+
+      const renewed = renewEntry(data, options);
+      if (!renewed) return false;
+
+      this.adapter.setItem(
+        this.getKey(key),
+        this.serializeEntry(this.packEntry(renewed, options), options)
+      );
+      this.scheduler.schedule(key, renewed.expiresAt, options);
+
+      return true;
+    } catch (error) {
+      this.reportReadError(error);
+
+      return false;
+    }
+  }
+
   /**
    * Remove an item from localStorage
    */
   removeItem(key: string): void {
-    if (typeof window === "undefined") return;
+    if (!this.adapter.isAvailable()) return;
 
     try {
-      window.localStorage.removeItem(this.getKey(key));
+      this.adapter.removeItem(this.getKey(key));
+      this.accessTimes.delete(key);
+      this.scheduler.cancel(key);
+      this.notify("remove", key);
     } catch (error) {
       const localStorageError: LocalStorageError = {
         type: "UNKNOWN_ERROR",
@@ -200,6 +1000,273 @@ export class LocalStorageManager {
     }
   }
 
+  /**
+   * Schedule the expiry of every entry of this manager whose envelope can be
+   * read without options. Other entries (e.g. encrypted ones) are scheduled
+   * once they are read or written.
+   */
+  trackExpirations(): void {
+    this.getAllKeys().forEach((key) => {
+      if (this.scheduler.has(key)) return;
+
+      const metadata = this.getItemMetadata(key);
+
+      if (metadata?.expiresAt) {
+        this.scheduler.schedule(key, metadata.expiresAt, {});
+      }
+    });
+  }
+
+  /**
+   * Called by the scheduler when an entry is due. Reading it checks the
+   * stored expiry, which another tab may have changed, and expires it.
+   */
+  private checkExpiry(
+    key: string,
+    options: LocalStorageOptions<unknown>
+  ): void {
+    // The scheduler isn't an access, so a sliding TTL must not be renewed
+    const readOptions = { ...options, slidingTtl: false };
+
+    if (this.usesWebCrypto(readOptions)) {
+      this.getItemAsync(key, readOptions);
+    } else {
+      this.getItem(key, readOptions);
+    }
+  }
+
+  /**
+   * Remove an expired entry and tell subscribers and expire listeners
+   */
+  private expireItem(key: string, lastValue: unknown): void {
+    try {
+      this.adapter.removeItem(this.getKey(key));
+      this.accessTimes.delete(key);
+      this.scheduler.cancel(key);
+      this.notify("expired", key);
+    } catch (error) {
+      this.handleError({
+        type: "UNKNOWN_ERROR",
+        message:
+          error instanceof Error ? error.message : "Failed to remove item",
+        originalError: error instanceof Error ? error : undefined
+      });
+
+      return;
+    }
+
+    this.expireListeners.forEach((listener) => listener(key, lastValue));
+  }
+
+  /**
+   * Re-encrypt every encrypted entry of this manager from `oldKey` to
+   * `newKey`, keeping each envelope (TTL, version) intact. Unencrypted
+   * entries and entries that already decrypt with `newKey` are skipped, so an
+   * interrupted rotation can simply be run again.
+   */
+  async rotateEncryptionKey(
+    options: KeyRotationOptions
+  ): Promise<KeyRotationResult> {
+    const result: KeyRotationResult = { rotated: [], skipped: [], failed: [] };
+
+    if (!this.adapter.isAvailable()) return result;
+
+    const targetIterations = options.encryption
+      ? getWebCryptoIterations(options.encryption)
+      : undefined;
+
+    for (const key of this.getAllKeys()) {
+      if (options.prefix && !key.startsWith(options.prefix)) continue;
+
+      const storageKey = this.getKey(key);
+
+      try {
+        const item = this.adapter.getItem(storageKey);
+
+        if (!item || this.isPlainEntry(item)) {
+          result.skipped.push(key);
+          continue;
+        }
+
+        let serialized: string;
+
+        try {
+          serialized = await decryptPayload(item, options.oldKey);
+        } catch (error) {
+          const rotated = await decryptPayload(item, options.newKey).then(
+            () => true,
+            () => false
+          );
+
+          if (rotated) {
+            result.skipped.push(key);
+            continue;
+          }
+
+          throw error;
+        }
+
+        // Keep the entry's own algorithm unless one was requested
+        const iterations =
+          targetIterations !== undefined
+            ? targetIterations
+            : getPayloadIterations(item);
+
+        this.adapter.setItem(
+          storageKey,
+          iterations !== null
+            ? await encryptWithWebCrypto(serialized, options.newKey, iterations)
+            : encryptValue(serialized, options.newKey)
+        );
+        this.notify("set", key);
+        result.rotated.push(key);
+      } catch (error) {
+        result.failed.push({
+          key,
+          error:
+            error instanceof Error ? error : new Error("Failed to rotate key")
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // Unencrypted entries are stored as JSON; encrypted payloads never parse
+  private isPlainEntry(item: string): boolean {
+    try {
+      JSON.parse(item);
+
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Export this manager's entries (or only `keys`) as a JSON backup. Entries
+   * are kept exactly as stored, so TTL, version and encryption survive the
+   * round trip.
+   */
+  async exportBackup(options: BackupExportOptions = {}): Promise<string> {
+    const entries: Record<string, string> = {};
+
+    if (this.adapter.isAvailable()) {
+      (options.keys || this.getAllKeys()).forEach((key) => {
+        const item = this.adapter.getItem(this.getKey(key));
+        if (item !== null) entries[key] = item;
+      });
+    }
+
+    const backup = await createBackup(
+      entries,
+      {
+        version: this.version,
+        prefix: this.prefix,
+        createdAt: Date.now(),
+        keyCount: Object.keys(entries).length
+      },
+      options.passphrase
+    );
+
+    return JSON.stringify(backup, null, 2);
+  }
+
+  /**
+   * Restore a backup made by exportBackup under this manager's prefix. With
+   * `dryRun` nothing is written and the report lists what would happen.
+   */
+  async importBackup(
+    json: string,
+    options: BackupImportOptions = {}
+  ): Promise<BackupImportReport> {
+    const report: BackupImportReport = {
+      manifest: null,
+      imported: [],
+      skipped: [],
+      failed: [],
+      dryRun: !!options.dryRun
+    };
+
+    let backup: Awaited<ReturnType<typeof readBackup>>;
+
+    try {
+      if (!this.adapter.isAvailable()) {
+        throw new Error("Storage is not available");
+      }
+
+      backup = await readBackup(json, options.passphrase);
+    } catch (error) {
+      const backupError =
+        error instanceof Error ? error : new Error("Failed to read backup");
+
+      this.handleError({
+        type:
+          backupError.name === "IntegrityError"
+            ? "INTEGRITY_ERROR"
+            : "DESERIALIZATION_ERROR",
+        message: backupError.message,
+        originalError: backupError
+      });
+
+      return { ...report, error: backupError };
+    }
+
+    report.manifest = backup.manifest;
+
+    Object.entries(backup.entries).forEach(([key, item]) => {
+      if (options.keys && !options.keys.includes(key)) return;
+
+      try {
+        if (typeof item !== "string") {
+          throw new Error(`Invalid entry for "${key}"`);
+        }
+
+        const existing = this.adapter.getItem(this.getKey(key));
+
+        if (!this.shouldImport(options.strategy, item, existing)) {
+          report.skipped.push(key);
+
+          return;
+        }
+
+        if (!options.dryRun) {
+          this.writeEntry(key, item);
+          this.notify("set", key);
+        }
+
+        report.imported.push(key);
+      } catch (error) {
+        report.failed.push({
+          key,
+          error:
+            error instanceof Error ? error : new Error("Failed to import entry")
+        });
+      }
+    });
+
+    return report;
+  }
+
+  private shouldImport(
+    strategy: BackupImportStrategy = "overwrite",
+    item: string,
+    existing: string | null
+  ): boolean {
+    if (existing === null || strategy === "overwrite") return true;
+    if (strategy === "skip-existing") return false;
+
+    // newest-wins: keep the existing entry unless both dates can be read
+    const incomingCreatedAt = getEntryCreatedAt(item);
+    const existingCreatedAt = getEntryCreatedAt(existing);
+
+    return (
+      incomingCreatedAt !== null &&
+      existingCreatedAt !== null &&
+      incomingCreatedAt > existingCreatedAt
+    );
+  }
+
   /**
    * Check if an item exists and is not expired
    */
@@ -213,10 +1280,10 @@ export class LocalStorageManager {
   getItemMetadata(
     key: string
   ): { createdAt: number; expiresAt: number | null; version?: string } | null {
-    if (typeof window === "undefined") return null;
+    if (!this.adapter.isAvailable()) return null;
 
     try {
-      const item = window.localStorage.getItem(this.getKey(key));
+      const item = this.adapter.getItem(this.getKey(key));
       if (!item) return null;
 
       const data: ExpiringLocalStorageValue<unknown> = JSON.parse(item);
@@ -235,17 +1302,21 @@ export class LocalStorageManager {
    * Clear all items with the current prefix
    */
   clear(): void {
-    if (typeof window === "undefined") return;
+    if (!this.adapter.isAvailable()) return;
 
     try {
-      const keys = Object.keys(window.localStorage);
+      const keys = this.adapter.keys();
       const prefix = this.prefix ? `${this.prefix}:` : "";
 
       keys.forEach((key) => {
         if (key.startsWith(prefix)) {
-          window.localStorage.removeItem(key);
+          this.adapter.removeItem(key);
         }
       });
+
+      this.accessTimes.clear();
+      this.scheduler.clear();
+      this.notify("clear", null);
     } catch (error) {
       const localStorageError: LocalStorageError = {
         type: "UNKNOWN_ERROR",
@@ -262,10 +1333,10 @@ export class LocalStorageManager {
    * Get all keys with the current prefix
    */
   getAllKeys(): string[] {
-    if (typeof window === "undefined") return [];
+    if (!this.adapter.isAvailable()) return [];
 
     try {
-      const keys = Object.keys(window.localStorage);
+      const keys = this.adapter.keys();
       const prefix = this.prefix ? `${this.prefix}:` : "";
 
       return keys
@@ -277,30 +1348,90 @@ export class LocalStorageManager {
   }
 
   /**
-   * Get localStorage usage information
+   * Get storage usage information in bytes
    */
   getStorageInfo(): { used: number; remaining: number; total: number } {
-    if (typeof window === "undefined") {
-      return { used: 0, remaining: 0, total: 0 };
+    const { used, remaining, total } = this.getStorageUsage(0);
+
+    return { used, remaining, total };
+  }
+
+  /**
+   * Get the size in bytes of a stored item, including its prefixed key
+   */
+  getItemSize(key: string): number {
+    if (!this.adapter.isAvailable()) return 0;
+
+    try {
+      const storageKey = this.getKey(key);
+      const item = this.adapter.getItem(storageKey);
+
+      return item !== null ? getEntryBytes(storageKey, item) : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Break down storage usage per key, per prefix and between this manager's
+   * entries and foreign keys, listing the `top` largest entries
+   */
+  getStorageUsage(top: number = 10): StorageUsage {
+    const usage: StorageUsage = {
+      used: 0,
+      total: this.quota,
+      remaining: this.quota,
+      library: 0,
+      foreign: 0,
+      byKey: {},
+      byPrefix: {},
+      largest: []
+    };
+
+    if (!this.adapter.isAvailable()) {
+      return { ...usage, total: 0, remaining: 0 };
     }
 
     try {
-      const total = 5 * 1024 * 1024; // 5MB typical limit
-      let used = 0;
+      const entries: StorageUsageEntry[] = [];
 
-      for (const key in window.localStorage) {
-        if (window.localStorage.hasOwnProperty(key)) {
-          used += window.localStorage[key].length + key.length;
-        }
-      }
+      this.adapter.keys().forEach((storageKey) => {
+        const item = this.adapter.getItem(storageKey);
+        if (item === null) return;
 
-      return {
-        used,
-        remaining: total - used,
-        total
-      };
+        const bytes = getEntryBytes(storageKey, item);
+        const owned = this.isOwnEntry(storageKey, item);
+        const namespace = getKeyNamespace(storageKey);
+
+        usage.used += bytes;
+        usage[owned ? "library" : "foreign"] += bytes;
+        usage.byKey[storageKey] = bytes;
+        usage.byPrefix[namespace] = (usage.byPrefix[namespace] || 0) + bytes;
+        entries.push({ key: storageKey, bytes, owned });
+      });
+
+      usage.remaining = Math.max(this.quota - usage.used, 0);
+      usage.largest = entries
+        .sort((a, b) => b.bytes - a.bytes)
+        .slice(0, Math.max(top, 0));
+
+      return usage;
+    } catch {
+      return { ...usage, total: 0, remaining: 0 };
+    }
+  }
+
+  // With a prefix every key under it belongs to this manager; without one,
+  // only values that parse as an entry envelope do
+  private isOwnEntry(storageKey: string, item: string): boolean {
+    if (this.prefix) return storageKey.startsWith(`${this.prefix}:`);
+
+    try {
+      const data = JSON.parse(item) as ExpiringLocalStorageValue<unknown>;
+
+      return !!data && typeof data.createdAt === "number" && "value" in data;
     } catch {
-      return { used: 0, remaining: 0, total: 0 };
+      return false;
     }
   }
 
@@ -308,21 +1439,21 @@ export class LocalStorageManager {
    * Clean up expired items
    */
   cleanupExpiredItems(): number {
-    if (typeof window === "undefined") return 0;
+    if (!this.adapter.isAvailable()) return 0;
 
     let cleanedCount = 0;
     const keys = this.getAllKeys();
 
     keys.forEach((key) => {
       try {
-        const rawItem = window.localStorage.getItem(this.getKey(key));
+        const rawItem = this.adapter.getItem(this.getKey(key));
         if (!rawItem) return;
 
         const data = JSON.parse(rawItem) as ExpiringLocalStorageValue<unknown>;
 
         // Check if item has expired
         if (data.expiresAt && Date.now() > data.expiresAt) {
-          this.removeItem(key);
+          this.expireItem(key, this.decompressEntry(data).value);
           cleanedCount++;
         }
       } catch {
@@ -336,12 +1467,21 @@ export class LocalStorageManager {
   }
 
   private dispatchStorageEvent<T>(key: string, newValue: T, oldValue: T): void {
+    this.dispatchChangeEvent({
+      key,
+      newValue,
+      oldValue,
+      storageKey: this.getKey(key),
+      storageArea: this.adapter.name
+    });
+  }
+
+  private dispatchChangeEvent<T>(detail: LocalStorageEventDetail<T>): void {
     if (typeof window === "undefined") return;
 
-    const event = new CustomEvent("localStorageChange", {
-      detail: { key, newValue, oldValue }
-    });
+    const event = new CustomEvent("localStorageChange", { detail });
 
+    this.dispatchedEvents.add(event);
     window.dispatchEvent(event);
   }
 }
@@ -349,6 +1489,11 @@ export class LocalStorageManager {
 // Default instance
 export const localStorageManager = new LocalStorageManager();
 
+// Default instance for tab-scoped storage
+export const sessionStorageManager = new LocalStorageManager({
+  adapter: sessionStorageAdapter
+});
+
 // Utility functions
 export const localStorageUtils = {
   /**
@@ -369,18 +1514,14 @@ export const localStorageUtils = {
   },
 
   /**
-   * Get size of a specific item in bytes
+   * Get size of a specific item in bytes (UTF-16), resolving the key through
+   * the manager's prefix
    */
-  getItemSize(key: string): number {
-    if (typeof window === "undefined") return 0;
-
-    try {
-      const item = window.localStorage.getItem(key);
-
-      return item ? item.length + key.length : 0;
-    } catch {
-      return 0;
-    }
+  getItemSize(
+    key: string,
+    manager: LocalStorageManager = localStorageManager
+  ): number {
+    return manager.getItemSize(key);
   },
 
   /**
@@ -0,0 +1,31 @@
+import { LocalStorageValidator } from "./localStorage.types";
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; error?: unknown };
+
+/**
+ * Run a type guard or safeParse-style schema against a deserialized value.
+ * Schemas may transform the value, so the parsed output is returned.
+ */
+export function validateValue<T>(
+  validate: LocalStorageValidator<T>,
+  value: unknown
+): ValidationResult<T> {
+  if (typeof validate === "function") {
+    return validate(value)
+      ? { valid: true, value: value as T }
+      : { valid: false };
+  }
+
+  const result = validate.safeParse(value);
+
+  if (!result.success) {
+    return { valid: false, error: result.error ?? result.issues };
+  }
+
+  // zod exposes `data`, valibot exposes `output`
+  const parsed = "data" in result ? result.data : result.output;
+
+  return { valid: true, value: (parsed ?? value) as T };
+}
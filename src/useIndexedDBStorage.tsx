@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { indexedDBStorageManager } from "./indexedDB.utils";
+import {
+  IndexedDBStorageOptions,
+  LocalStorageEventDetail,
+  UseIndexedDBStorageReturn
+} from "./localStorage.types";
+
+/**
+ * Hook for values too large for localStorage. Persists the same TTL envelope
+ * in IndexedDB; `isLoading` is true until the initial read resolves.
+ */
+export function useIndexedDBStorage<T>(
+  key: string,
+  initialValue: T,
+  options: IndexedDBStorageOptions<T> = {}
+): UseIndexedDBStorageReturn<T> {
+  const manager = options.manager || indexedDBStorageManager;
+  const optionsRef = useRef(options);
+  const [storedValue, setStoredValue] = useState<T>(initialValue);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const valueRef = useRef(storedValue);
+
+  // Update options ref when options change
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  useEffect(() => {
+    valueRef.current = storedValue;
+  }, [storedValue]);
+
+  const refreshValue = useCallback(async () => {
+    try {
+      const value = await manager.getItem<T>(key, optionsRef.current);
+      setStoredValue(value !== null ? value : initialValue);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err : new Error("Failed to read from IndexedDB")
+      );
+    }
+  }, [key, initialValue, manager]);
+
+  const setValue = useCallback(
+    async (value: T | ((prevValue: T) => T)) => {
+      try {
+        setError(null);
+        const valueToStore =
+          value instanceof Function ? value(valueRef.current) : value;
+        const result = await manager.setItem(
+          key,
+          valueToStore,
+          optionsRef.current
+        );
+
+        if (result === false) {
+          // Don't update state to maintain consistency
+          throw new Error("Failed to save to IndexedDB");
+        }
+
+        valueRef.current = valueToStore;
+        setStoredValue(valueToStore);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err : new Error("Failed to save to IndexedDB")
+        );
+      }
+    },
+    [key, manager]
+  );
+
+  const removeValue = useCallback(async () => {
+    try {
+      setError(null);
+      await manager.removeItem(key);
+      setStoredValue(initialValue);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err
+          : new Error("Failed to remove from IndexedDB")
+      );
+    }
+  }, [key, initialValue, manager]);
+
+  // Initial read, repeated when the key changes
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    manager
+      .getItem<T>(key, optionsRef.current)
+      .then((value) => {
+        if (!cancelled) setStoredValue(value !== null ? value : initialValue);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // initialValue is only used as a fallback for the first read
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, manager]);
+
+  // Keep hooks on the same key in this window in sync
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const storageKey = manager.getKey(key);
+
+    const handleCustomStorageChange = (
+      e: CustomEvent<LocalStorageEventDetail<T>>
+    ) => {
+      const { detail } = e;
+
+      if (
+        detail.storageArea === "indexedDB" &&
+        detail.storageKey === storageKey
+      ) {
+        valueRef.current = detail.newValue;
+        setStoredValue(detail.newValue);
+      }
+    };
+
+    window.addEventListener(
+      "localStorageChange",
+      handleCustomStorageChange as EventListener
+    );
+
+    return () => {
+      window.removeEventListener(
+        "localStorageChange",
+        handleCustomStorageChange as EventListener
+      );
+    };
+  }, [key, manager]);
+
+  return [
+    storedValue,
+    {
+      setValue,
+      removeValue,
+      refreshValue,
+      isLoading,
+      error
+    }
+  ];
+}
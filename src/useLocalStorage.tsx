@@ -1,18 +1,23 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSyncExternalStore } from "use-sync-external-store/shim";
 
+import { getLocalStorageStore } from "./localStorage.store";
 import {
-  LocalStorageEventDetail,
   LocalStorageOptions,
   UseLocalStorageReturn
 } from "./localStorage.types";
-import { localStorageManager } from "./localStorage.utils";
+import { useResolvedOptions } from "./LocalStorageProvider";
+
+// Nothing is stored on the server, so SSR and hydration use initialValue
+const getServerSnapshot = () => null;
 
 export function useLocalStorage<T>(
   key: string,
   initialValue: T,
-  options: LocalStorageOptions<T> = {}
+  hookOptions: LocalStorageOptions<T> = {}
 ): UseLocalStorageReturn<T> {
   const isBrowser = typeof window !== "undefined";
+  const { manager, options } = useResolvedOptions(hookOptions);
   const optionsRef = useRef(options);
   const [, setError] = useState<Error | null>(null);
 
@@ -21,50 +26,56 @@ export function useLocalStorage<T>(
     optionsRef.current = options;
   }, [options]);
 
-  const readValue = useCallback((): T => {
-    if (!isBrowser) return initialValue;
-
-    try {
-      const value = localStorageManager.getItem<T>(key, optionsRef.current);
-
-      return value !== null ? value : initialValue;
-    } catch (err) {
-      setError(
-        err instanceof Error
-          ? err
-          : new Error("Failed to read from localStorage")
-      );
+  const store = useMemo(
+    () => getLocalStorageStore<T>(manager, key),
+    [manager, key]
+  );
 
-      return initialValue;
-    }
-  }, [key, initialValue, isBrowser]);
+  const getSnapshot = useCallback(
+    () => store.getSnapshot(optionsRef.current),
+    [store]
+  );
 
-  const [storedValue, setStoredValue] = useState<T>(readValue);
+  const snapshot = useSyncExternalStore(
+    store.subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+  const storedValue = snapshot !== null ? snapshot : initialValue;
+  const isLoading = store.isLoading();
 
   const setValue = useCallback(
     (value: T | ((prevValue: T) => T)) => {
       try {
         setError(null);
-        const valueToStore =
-          value instanceof Function ? value(storedValue) : value;
-
-        // Try to persist to localStorage
-        const result = localStorageManager.setItem(
-          key,
-          valueToStore,
-          optionsRef.current
-        );
 
-        if (result === "unavailable") {
-          // localStorage is not available (SSR, undefined, etc.)
-          // Update state anyway - it should work like a regular useState
-          setStoredValue(valueToStore);
-        } else if (result === true) {
-          // Successfully saved to localStorage
-          setStoredValue(valueToStore);
-        } else {
+        // When storage is not available (SSR, undefined, etc.) the store
+        // keeps the value in memory, so it works like a regular useState
+        const result =
+          value instanceof Function
+            ? store.update(
+                (currentValue) =>
+                  value(currentValue !== null ? currentValue : initialValue),
+                optionsRef.current
+              )
+            : store.setValue(value, optionsRef.current);
+
+        // AES-GCM writes resolve later; the store shows the new value while
+        // they are in flight. Functional updates made while the stored value
+        // is still decrypting wait for it.
+        if (result instanceof Promise) {
+          result.then((written) => {
+            if (written === false) {
+              setError(new Error("Failed to save to localStorage"));
+            }
+          });
+
+          return;
+        }
+
+        if (result === false) {
           // Failed to save (quota exceeded, etc.)
-          // Don't update state to maintain consistency
+          // The store isn't updated to maintain consistency
           throw new Error("Failed to save to localStorage");
         }
       } catch (err) {
@@ -75,14 +86,13 @@ export function useLocalStorage<T>(
         );
       }
     },
-    [key, storedValue]
+    [store, initialValue]
   );
 
   const removeValue = useCallback(() => {
     try {
       setError(null);
-      localStorageManager.removeItem(key);
-      setStoredValue(initialValue);
+      store.remove();
     } catch (err) {
       setError(
         err instanceof Error
@@ -90,118 +100,73 @@ export function useLocalStorage<T>(
           : new Error("Failed to remove from localStorage")
       );
     }
-  }, [key, initialValue]);
+  }, [store]);
+
+  // Write a value deferred by `writeMode` right away
+  const flush = useCallback(() => {
+    const result = store.flush();
+
+    if (result instanceof Promise) {
+      result.then((written) => {
+        if (written === false) {
+          setError(new Error("Failed to save to localStorage"));
+        }
+      });
+    } else if (result === false) {
+      setError(new Error("Failed to save to localStorage"));
+    }
+  }, [store]);
+
+  // Deferred writes must not be lost when the component unmounts
+  useEffect(
+    () => () => {
+      store.flush();
+    },
+    [store]
+  );
 
   const refreshValue = useCallback(() => {
     if (!isBrowser) return;
 
-    try {
-      const value = localStorageManager.getItem<T>(key, optionsRef.current);
-      const newValue = value !== null ? value : initialValue;
-      setStoredValue(newValue);
-    } catch (err) {
-      setError(
-        err instanceof Error
-          ? err
-          : new Error("Failed to read from localStorage")
-      );
-    }
-  }, [key, initialValue, isBrowser]);
+    store.refresh();
+  }, [store, isBrowser]);
 
   const isExpired = useCallback((): boolean => {
-    const metadata = localStorageManager.getItemMetadata(key);
+    const metadata = manager.getItemMetadata(key);
     if (!metadata || !metadata.expiresAt) return false;
 
     return Date.now() > metadata.expiresAt;
-  }, [key]);
+  }, [key, manager]);
 
   const getCreatedAt = useCallback((): number | null => {
-    const metadata = localStorageManager.getItemMetadata(key);
+    const metadata = manager.getItemMetadata(key);
 
     return metadata?.createdAt || null;
-  }, [key]);
+  }, [key, manager]);
 
   const getExpiresAt = useCallback((): number | null => {
-    const metadata = localStorageManager.getItemMetadata(key);
+    const metadata = manager.getItemMetadata(key);
 
     return metadata?.expiresAt || null;
-  }, [key]);
+  }, [key, manager]);
 
   const getRemainingTime = useCallback((): number | null => {
-    const metadata = localStorageManager.getItemMetadata(key);
+    const metadata = manager.getItemMetadata(key);
     if (!metadata || !metadata.expiresAt) return null;
 
     const remaining = metadata.expiresAt - Date.now();
 
     return remaining > 0 ? remaining : 0;
-  }, [key]);
-
-  // Listen for storage changes (including from other tabs)
-  useEffect(() => {
-    if (!isBrowser) return;
-
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === key && e.newValue !== e.oldValue) {
-        refreshValue();
-      }
-    };
-
-    const handleCustomStorageChange = (
-      e: CustomEvent<LocalStorageEventDetail<T>>
-    ) => {
-      if (e.detail.key === key) {
-        setStoredValue(e.detail.newValue);
-      }
-    };
-
-    window.addEventListener("storage", handleStorageChange);
-    window.addEventListener(
-      "localStorageChange",
-      handleCustomStorageChange as EventListener
-    );
-
-    return () => {
-      window.removeEventListener("storage", handleStorageChange);
-      window.removeEventListener(
-        "localStorageChange",
-        handleCustomStorageChange as EventListener
-      );
-    };
-  }, [key, isBrowser]);
-
-  // Auto-refresh when key changes
-  useEffect(() => {
-    refreshValue();
-  }, [key]);
-
-  // Auto-cleanup expired items (optional)
-  useEffect(() => {
-    if (!isBrowser || !options?.ttl) return;
-
-    const interval = setInterval(
-      () => {
-        // Check if expired directly without using callback
-        const metadata = localStorageManager.getItemMetadata(key);
-        const expired = metadata?.expiresAt && Date.now() > metadata.expiresAt;
-
-        if (expired) {
-          try {
-            localStorageManager.removeItem(key);
-            setStoredValue(initialValue);
-          } catch (err) {
-            setError(
-              err instanceof Error
-                ? err
-                : new Error("Failed to remove expired item")
-            );
-          }
-        }
-      },
-      Math.min(options.ttl / 10, 60000)
-    ); // Check every 1/10 of TTL or max 1 minute
-
-    return () => clearInterval(interval);
-  }, [options?.ttl, key, initialValue, isBrowser]);
+  }, [key, manager]);
+
+  // Expiries of this key found anywhere in this tab, by any reader
+  useEffect(
+    () =>
+      store.onExpire((lastValue) => {
+        optionsRef.current.onExpire?.(key, lastValue);
+      }),
+    [store, key]
+  );
 
   return [
     storedValue,
@@ -209,10 +174,12 @@ export function useLocalStorage<T>(
       setValue,
       removeValue,
       refreshValue,
+      flush,
       isExpired,
       getCreatedAt,
       getExpiresAt,
-      getRemainingTime
+      getRemainingTime,
+      isLoading
     }
   ];
 }
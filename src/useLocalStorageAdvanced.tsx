@@ -1,7 +1,12 @@
-import { useCallback, useState } from "react";
-
-import { LocalStorageOptions } from "./localStorage.types";
-import { localStorageManager } from "./localStorage.utils";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSyncExternalStore } from "use-sync-external-store/shim";
+
+import { getLocalStorageStore } from "./localStorage.store";
+import {
+  LocalStorageOptions,
+  UseLocalStorageMultipleOptions
+} from "./localStorage.types";
+import { useResolvedOptions } from "./LocalStorageProvider";
 import { useLocalStorage } from "./useLocalStorage";
 
 /**
@@ -291,69 +296,231 @@ export function useLocalStorageNumber(
 }
 
 /**
- * Hook for managing multiple localStorage keys as a single state
+ * Hook for managing multiple localStorage keys as a single state. Each key is
+ * backed by the same store as useLocalStorage, so it stays in sync with other
+ * hooks, managers and tabs. `keyOptions` overrides the shared options per key.
  */
 export function useLocalStorageMultiple<T extends Record<string, unknown>>(
   keys: T,
-  options: LocalStorageOptions<unknown> = {}
+  hookOptions: UseLocalStorageMultipleOptions<T> = {}
 ) {
-  const [values, setValuesState] = useState<T>(() => {
-    const initialValues = {} as T;
+  const { keyOptions, ...sharedOptions } = hookOptions;
+  const { manager, options } = useResolvedOptions(sharedOptions);
+  const optionsRef = useRef({ options, keyOptions });
+  const keysRef = useRef(keys);
+  const serverSnapshotRef = useRef(keys);
+  const cacheRef = useRef<{ snapshots: unknown[]; values: T } | null>(null);
+  const [errors, setErrors] = useState<Partial<Record<keyof T, Error>>>({});
+
+  // Update refs when options or initial values change
+  useEffect(() => {
+    optionsRef.current = { options, keyOptions };
+    keysRef.current = keys;
+  }, [options, keyOptions, keys]);
+
+  // Only the key names matter for subscriptions, not the initial values
+  const keyList = Object.keys(keys).join("\u0000");
+  const keyNames = useMemo(
+    () => (keyList ? keyList.split("\u0000") : []) as (keyof T & string)[],
+    [keyList]
+  );
+
+  const stores = useMemo(
+    () => keyNames.map((key) => getLocalStorageStore<unknown>(manager, key)),
+    [manager, keyNames]
+  );
+
+  const getKeyOptions = useCallback(
+    (key: keyof T): LocalStorageOptions<unknown> => {
+      const { options, keyOptions } = optionsRef.current;
+
+      return {
+        ...options,
+        ...(keyOptions?.[key] as LocalStorageOptions<unknown> | undefined)
+      };
+    },
+    []
+  );
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      const unsubscribes = stores.map((store) => store.subscribe(listener));
+
+      return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+    },
+    [stores]
+  );
 
-    for (const [key, initialValue] of Object.entries(keys)) {
-      const storedValue = localStorageManager.getItem(key, options);
-      (initialValues as Record<string, unknown>)[key] =
-        storedValue ?? initialValue;
+  // Rebuild the values object only when one of the key snapshots changed,
+  // so it stays referentially stable between renders
+  const getSnapshot = useCallback(() => {
+    const snapshots = keyNames.map((key, index) =>
+      stores[index].getSnapshot(getKeyOptions(key))
+    );
+    const cached = cacheRef.current;
+
+    if (
+      cached &&
+      cached.snapshots.length === snapshots.length &&
+      cached.snapshots.every((snapshot, index) => snapshot === snapshots[index])
+    ) {
+      return cached.values;
     }
 
-    return initialValues;
-  });
+    const values = {} as T;
+
+    keyNames.forEach((key, index) => {
+      values[key] = (
+        snapshots[index] !== null ? snapshots[index] : keysRef.current[key]
+      ) as T[typeof key];
+    });
+
+    cacheRef.current = { snapshots, values };
+
+    return values;
+  }, [keyNames, stores, getKeyOptions]);
+
+  const getServerSnapshot = useCallback(() => serverSnapshotRef.current, []);
+
+  const values = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+
+  const setKeyErrors = useCallback(
+    (keysToUpdate: (keyof T)[], error: Error | null) => {
+      setErrors((prev) => {
+        const next = { ...prev };
+
+        keysToUpdate.forEach((key) => {
+          if (error) {
+            next[key] = error;
+          } else {
+            delete next[key];
+          }
+        });
+
+        return next;
+      });
+    },
+    []
+  );
+
+  const getStore = useCallback(
+    (key: keyof T) => getLocalStorageStore<unknown>(manager, key as string),
+    [manager]
+  );
 
   const setValue = useCallback(
     <K extends keyof T>(key: K, value: T[K]) => {
-      setValuesState((prev) => ({ ...prev, [key]: value }));
-      localStorageManager.setItem(key as string, value, options);
+      const result = getStore(key).setValue(value, getKeyOptions(key));
+
+      const handleResult = (written: boolean | "unavailable") => {
+        setKeyErrors(
+          [key],
+          written === false
+            ? new Error(`Failed to save "${String(key)}"`)
+            : null
+        );
+      };
+
+      if (result instanceof Promise) {
+        result.then(handleResult);
+      } else {
+        handleResult(result);
+      }
     },
-    [options]
+    [getStore, getKeyOptions, setKeyErrors]
   );
 
   const setValues = useCallback(
     (newValues: Partial<T>) => {
-      setValuesState((prev) => ({ ...prev, ...newValues }));
+      const changedKeys = Object.keys(newValues) as (keyof T & string)[];
+
+      // AES-GCM can only be written asynchronously, outside a transaction
+      if (
+        changedKeys.some((key) => manager.usesWebCrypto(getKeyOptions(key)))
+      ) {
+        changedKeys.forEach((key) => setValue(key, newValues[key] as T[never]));
 
-      for (const [key, value] of Object.entries(newValues)) {
-        localStorageManager.setItem(key, value, options);
+        return;
       }
+
+      // All keys are written or none are, so values only change on success
+      const result = manager.transaction((tx) => {
+        changedKeys.forEach((key) => {
+          tx.set(key, newValues[key], getKeyOptions(key));
+        });
+      });
+
+      if (result === "unavailable") {
+        // Without storage each store keeps its value in memory
+        changedKeys.forEach((key) => {
+          getStore(key).setValue(newValues[key], getKeyOptions(key));
+        });
+      }
+
+      setKeyErrors(
+        changedKeys,
+        result === false ? new Error("Failed to save values") : null
+      );
     },
-    [options]
+    [manager, getStore, getKeyOptions, setKeyErrors, setValue]
   );
 
   const removeValue = useCallback(
     <K extends keyof T>(key: K) => {
-      setValuesState((prev) => ({ ...prev, [key]: keys[key] }));
-      localStorageManager.removeItem(key as string);
+      getStore(key).remove();
+      setKeyErrors([key], null);
     },
-    [keys]
+    [getStore, setKeyErrors]
   );
 
   const removeAll = useCallback(() => {
-    setValuesState(keys);
+    manager.transaction((tx) => {
+      keyNames.forEach((key) => tx.remove(key));
+    });
 
-    for (const key of Object.keys(keys)) {
-      localStorageManager.removeItem(key);
-    }
-  }, [keys]);
+    // Clears in-memory fallbacks as well
+    stores.forEach((store) => store.remove());
+    setErrors({});
+  }, [manager, keyNames, stores]);
 
   const refreshValues = useCallback(() => {
-    const newValues = {} as T;
+    stores.forEach((store) => store.refresh());
+  }, [stores]);
 
-    for (const [key, initialValue] of Object.entries(keys)) {
-      const storedValue = localStorageManager.getItem(key, options);
-      (newValues as Record<string, unknown>)[key] = storedValue ?? initialValue;
-    }
+  const getCreatedAt = useCallback(
+    (key: keyof T): number | null =>
+      manager.getItemMetadata(key as string)?.createdAt || null,
+    [manager]
+  );
+
+  const getExpiresAt = useCallback(
+    (key: keyof T): number | null =>
+      manager.getItemMetadata(key as string)?.expiresAt || null,
+    [manager]
+  );
+
+  const isExpired = useCallback(
+    (key: keyof T): boolean => {
+      const expiresAt = getExpiresAt(key);
 
-    setValuesState(newValues);
-  }, [keys, options]);
+      return expiresAt !== null && Date.now() > expiresAt;
+    },
+    [getExpiresAt]
+  );
+
+  const getRemainingTime = useCallback(
+    (key: keyof T): number | null => {
+      const expiresAt = getExpiresAt(key);
+      if (expiresAt === null) return null;
+
+      return Math.max(expiresAt - Date.now(), 0);
+    },
+    [getExpiresAt]
+  );
 
   return {
     values,
@@ -361,6 +528,11 @@ export function useLocalStorageMultiple<T extends Record<string, unknown>>(
     setValues,
     removeValue,
     removeAll,
-    refreshValues
+    refreshValues,
+    errors,
+    isExpired,
+    getCreatedAt,
+    getExpiresAt,
+    getRemainingTime
   };
 }
@@ -0,0 +1,183 @@
+import { ChangeEvent, useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  LocalStorageOptions,
+  UseLocalStorageFormOptions
+} from "./localStorage.types";
+import { useLocalStorage } from "./useLocalStorage";
+
+const DEFAULT_DEBOUNCE = 500;
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+function isChangeEvent(value: unknown): value is ChangeEvent<FieldElement> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "target" in value &&
+    typeof (value as ChangeEvent<FieldElement>).target === "object"
+  );
+}
+
+/**
+ * Hook for form state with a persisted draft. Changes are written after
+ * `debounce` ms without the `exclude`d fields, and the draft expires with
+ * `ttl` like any other entry. A stored draft is offered through `hasDraft`
+ * and applied with `restoreDraft()`, or applied on mount with `autoRestore`.
+ */
+export function useLocalStorageForm<T extends Record<string, unknown>>(
+  key: string,
+  initialValues: T,
+  hookOptions: UseLocalStorageFormOptions<T> = {}
+) {
+  const {
+    debounce = DEFAULT_DEBOUNCE,
+    exclude = [],
+    autoRestore = false,
+    ...options
+  } = hookOptions;
+  const [draft, { setValue: setDraft, removeValue: removeDraft, ...methods }] =
+    useLocalStorage<Partial<T> | null>(
+      key,
+      null,
+      options as LocalStorageOptions<Partial<T> | null>
+    );
+
+  const [values, setValues] = useState<T>(() =>
+    autoRestore && draft ? { ...initialValues, ...draft } : initialValues
+  );
+  // The stored draft is only offered until the form is touched
+  const [draftHandled, setDraftHandled] = useState(autoRestore);
+  const valuesRef = useRef(values);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const excludeRef = useRef(exclude);
+
+  useEffect(() => {
+    excludeRef.current = exclude;
+  }, [exclude]);
+
+  const isFieldDirty = useCallback(
+    (name: keyof T) => !Object.is(values[name], initialValues[name]),
+    [values, initialValues]
+  );
+
+  const saveDraft = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const nextDraft: Partial<T> = {};
+
+    (Object.keys(valuesRef.current) as (keyof T)[]).forEach((name) => {
+      if (!excludeRef.current.includes(name)) {
+        nextDraft[name] = valuesRef.current[name];
+      }
+    });
+
+    setDraft(nextDraft);
+  }, [setDraft]);
+
+  // Keep the latest saveDraft for the unmount flush
+  const saveDraftRef = useRef(saveDraft);
+
+  useEffect(() => {
+    saveDraftRef.current = saveDraft;
+  }, [saveDraft]);
+
+  // Write a pending change instead of dropping it on unmount
+  useEffect(
+    () => () => {
+      if (timerRef.current) saveDraftRef.current();
+    },
+    []
+  );
+
+  const setFieldValue = useCallback(
+    <K extends keyof T>(name: K, value: T[K]) => {
+      valuesRef.current = { ...valuesRef.current, [name]: value };
+      setValues(valuesRef.current);
+      setDraftHandled(true);
+
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(saveDraft, debounce);
+    },
+    [saveDraft, debounce]
+  );
+
+  const getFieldProps = useCallback(
+    <K extends keyof T>(name: K) => ({
+      name: name as string,
+      value: values[name],
+      onChange: (eventOrValue: ChangeEvent<FieldElement> | T[K]) => {
+        if (!isChangeEvent(eventOrValue)) {
+          setFieldValue(name, eventOrValue);
+
+          return;
+        }
+
+        const { target } = eventOrValue;
+        const value =
+          target instanceof HTMLInputElement && target.type === "checkbox"
+            ? target.checked
+            : target.value;
+
+        setFieldValue(name, value as T[K]);
+      }
+    }),
+    [values, setFieldValue]
+  );
+
+  const restoreDraft = useCallback(() => {
+    if (draft) {
+      valuesRef.current = { ...valuesRef.current, ...draft };
+      setValues(valuesRef.current);
+    }
+
+    setDraftHandled(true);
+  }, [draft]);
+
+  const discardDraft = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    removeDraft();
+    setDraftHandled(true);
+  }, [removeDraft]);
+
+  /**
+   * Back to the initial values, without a draft (e.g. after submitting)
+   */
+  const reset = useCallback(() => {
+    valuesRef.current = initialValues;
+    setValues(initialValues);
+    discardDraft();
+  }, [initialValues, discardDraft]);
+
+  const dirtyFields = {} as Record<keyof T, boolean>;
+
+  (Object.keys(values) as (keyof T)[]).forEach((name) => {
+    dirtyFields[name] = isFieldDirty(name);
+  });
+
+  const isDirty = Object.values(dirtyFields).some(Boolean);
+
+  return {
+    values,
+    setFieldValue,
+    getFieldProps,
+    dirtyFields,
+    isFieldDirty,
+    isDirty,
+    isPristine: !isDirty,
+    hasDraft: draft !== null && !draftHandled,
+    draft,
+    restoreDraft,
+    discardDraft,
+    saveDraft,
+    reset,
+    ...methods
+  };
+}
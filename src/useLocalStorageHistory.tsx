@@ -0,0 +1,143 @@
+import { useCallback, useMemo } from "react";
+
+import {
+  LocalStorageHistory,
+  UseLocalStorageHistoryOptions
+} from "./localStorage.types";
+import { useLocalStorage } from "./useLocalStorage";
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+function isHistory<T>(value: unknown): value is LocalStorageHistory<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "present" in value &&
+    Array.isArray((value as LocalStorageHistory<T>).past) &&
+    Array.isArray((value as LocalStorageHistory<T>).future)
+  );
+}
+
+function createHistory<T>(present: T): LocalStorageHistory<T> {
+  return { past: [], present, future: [], checkpoint: true };
+}
+
+/**
+ * Hook for a value with undo/redo. The present value and the bounded past and
+ * future stacks are persisted together under `key`, so history survives
+ * reloads and follows the value across tabs. With `manualCheckpoints`,
+ * changes are grouped into one undo step until `checkpoint()` is called.
+ */
+export function useLocalStorageHistory<T>(
+  key: string,
+  initialValue: T,
+  hookOptions: UseLocalStorageHistoryOptions<T> = {}
+) {
+  const {
+    limit = DEFAULT_HISTORY_LIMIT,
+    manualCheckpoints = false,
+    ...options
+  } = hookOptions;
+  const initialHistory = useMemo(
+    () => createHistory(initialValue),
+    [initialValue]
+  );
+  const [stored, { setValue: setHistory, removeValue, ...methods }] =
+    useLocalStorage<LocalStorageHistory<T>>(key, initialHistory, options);
+
+  // Values stored before the key had history become the present value
+  const history = isHistory<T>(stored)
+    ? stored
+    : createHistory(stored as unknown as T);
+
+  const updateHistory = useCallback(
+    (update: (prev: LocalStorageHistory<T>) => LocalStorageHistory<T>) => {
+      setHistory((prev) =>
+        update(isHistory<T>(prev) ? prev : createHistory(prev as unknown as T))
+      );
+    },
+    [setHistory]
+  );
+
+  const setValue = useCallback(
+    (value: T | ((prevValue: T) => T)) => {
+      updateHistory((prev) => {
+        const present = value instanceof Function ? value(prev.present) : value;
+
+        if (Object.is(present, prev.present)) return prev;
+
+        // Inside a group only the present value changes
+        if (manualCheckpoints && !prev.checkpoint) {
+          return { ...prev, present, future: [] };
+        }
+
+        return {
+          past: [...prev.past, prev.present].slice(-limit),
+          present,
+          future: [],
+          checkpoint: !manualCheckpoints
+        };
+      });
+    },
+    [updateHistory, limit, manualCheckpoints]
+  );
+
+  const undo = useCallback(() => {
+    updateHistory((prev) => {
+      if (prev.past.length === 0) return prev;
+
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future].slice(0, limit),
+        checkpoint: true
+      };
+    });
+  }, [updateHistory, limit]);
+
+  const redo = useCallback(() => {
+    updateHistory((prev) => {
+      if (prev.future.length === 0) return prev;
+
+      return {
+        past: [...prev.past, prev.present].slice(-limit),
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        checkpoint: true
+      };
+    });
+  }, [updateHistory, limit]);
+
+  /**
+   * End the current group, so the next change is a new undo step
+   */
+  const checkpoint = useCallback(() => {
+    updateHistory((prev) =>
+      prev.checkpoint ? prev : { ...prev, checkpoint: true }
+    );
+  }, [updateHistory]);
+
+  const clearHistory = useCallback(() => {
+    updateHistory((prev) => createHistory(prev.present));
+  }, [updateHistory]);
+
+  const reset = useCallback(() => {
+    setHistory(createHistory(initialValue));
+  }, [setHistory, initialValue]);
+
+  return {
+    value: history.present,
+    setValue,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    checkpoint,
+    clearHistory,
+    reset,
+    past: history.past,
+    future: history.future,
+    removeValue,
+    ...methods
+  };
+}
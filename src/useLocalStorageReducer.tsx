@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { UseLocalStorageReducerOptions } from "./localStorage.types";
+import { useLocalStorage } from "./useLocalStorage";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Hook for reducer-driven state persisted after every dispatch. Writes from
+ * other hooks and tabs are merged into the current state. With
+ * `persistSelector` only the selected part is written; the rest of the state
+ * lives in memory and starts from `initialState`.
+ */
+export function useLocalStorageReducer<S, A, P = S>(
+  key: string,
+  reducer: (state: S, action: A) => S,
+  initialState: S,
+  hookOptions: UseLocalStorageReducerOptions<S, P> = {}
+) {
+  const { persistSelector, merge, ...options } = hookOptions;
+
+  const select = useCallback(
+    (state: S): P =>
+      persistSelector ? persistSelector(state) : (state as unknown as P),
+    [persistSelector]
+  );
+
+  const mergeState = useCallback(
+    (state: S, persisted: P): S => {
+      if (merge) return merge(state, persisted);
+
+      // A selected part is merged back into the rest of the state
+      if (persistSelector && isPlainObject(state) && isPlainObject(persisted)) {
+        return { ...state, ...persisted };
+      }
+
+      return persisted as unknown as S;
+    },
+    [merge, persistSelector]
+  );
+
+  const [initialPersisted] = useState(() => select(initialState));
+  const [persisted, { setValue, removeValue, ...methods }] = useLocalStorage<P>(
+    key,
+    initialPersisted,
+    options
+  );
+
+  const [state, setState] = useState<S>(() =>
+    persisted === initialPersisted
+      ? initialState
+      : mergeState(initialState, persisted)
+  );
+  const stateRef = useRef(state);
+  // Last persisted value this hook has seen or written
+  const persistedRef = useRef(persisted);
+
+  // Merge changes made elsewhere (other hooks, tabs, removals)
+  useEffect(() => {
+    if (persisted === persistedRef.current) return;
+
+    persistedRef.current = persisted;
+    stateRef.current = mergeState(stateRef.current, persisted);
+    setState(stateRef.current);
+  }, [persisted, mergeState]);
+
+  const dispatch = useCallback(
+    (action: A) => {
+      const nextState = reducer(stateRef.current, action);
+      if (Object.is(nextState, stateRef.current)) return;
+
+      stateRef.current = nextState;
+      setState(nextState);
+
+      const nextPersisted = select(nextState);
+
+      if (!Object.is(nextPersisted, persistedRef.current)) {
+        persistedRef.current = nextPersisted;
+        setValue(nextPersisted);
+      }
+    },
+    [reducer, select, setValue]
+  );
+
+  return [state, dispatch, { removeValue, ...methods }] as const;
+}
@@ -1,10 +1,108 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 
-import { LocalStorageOptions } from "./localStorage.types";
+import { CompressionOptions, LocalStorageOptions } from "./localStorage.types";
+import { LocalStorageManager } from "./localStorage.utils";
+import {
+  useLocalStorageContext,
+  useResolvedOptions
+} from "./LocalStorageProvider";
 import { useLocalStorage } from "./useLocalStorage";
 
+type CacheRequest = {
+  promise: Promise<unknown>;
+  failureCount: number;
+  listeners: Set<(failureCount: number) => void>;
+};
+
+type RetryOptions = {
+  retry: number;
+  retryDelay: number;
+  maxRetryDelay: number;
+  retryOn?: (error: unknown, failureCount: number) => boolean;
+};
+
+// Fetches in flight per manager and key, shared by every consumer
+const inFlightRequests = new WeakMap<
+  LocalStorageManager,
+  Map<string, CacheRequest>
+>();
+
+function getInFlightRequests(
+  manager: LocalStorageManager
+): Map<string, CacheRequest> {
+  let requests = inFlightRequests.get(manager);
+
+  if (!requests) {
+    requests = new Map();
+    inFlightRequests.set(manager, requests);
+  }
+
+  return requests;
+}
+
+/**
+ * Exponential backoff with jitter: between half and the full delay, so
+ * clients that failed together don't retry together
+ */
+function getRetryDelay(
+  attempt: number,
+  { retryDelay, maxRetryDelay }: RetryOptions
+): number {
+  const delay = Math.min(retryDelay * 2 ** attempt, maxRetryDelay);
+
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
 /**
- * Hook for caching API responses or expensive computations in localStorage
+ * Run `fetcher` with retries and register it until it settles
+ */
+function startRequest<T>(
+  requests: Map<string, CacheRequest>,
+  key: string,
+  fetcher: () => Promise<T>,
+  retryOptions: RetryOptions
+): CacheRequest {
+  const request: CacheRequest = {
+    promise: Promise.resolve(),
+    failureCount: 0,
+    listeners: new Set()
+  };
+
+  const run = async (): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fetcher();
+      } catch (error) {
+        request.failureCount++;
+        request.listeners.forEach((listener) => listener(request.failureCount));
+
+        if (
+          attempt >= retryOptions.retry ||
+          (retryOptions.retryOn &&
+            !retryOptions.retryOn(error, request.failureCount))
+        ) {
+          throw error;
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, getRetryDelay(attempt, retryOptions))
+        );
+      }
+    }
+  };
+
+  request.promise = run().finally(() => {
+    requests.delete(key);
+  });
+  requests.set(key, request);
+
+  return request;
+}
+
+/**
+ * Hook for caching API responses or expensive computations in localStorage.
+ * Consumers of the same key share one request while it is in flight, and
+ * failed fetches are retried with exponential backoff.
  */
 export function useLocalStorageCache<T>(
   key: string,
@@ -15,6 +113,10 @@ export function useLocalStorageCache<T>(
     refetchOnMount?: boolean;
     refetchOnReconnect?: boolean;
     refetchOnWindowFocus?: boolean;
+    retry?: number; // Retries after a failed fetch (default 0)
+    retryDelay?: number; // Delay before the first retry, doubled each time
+    maxRetryDelay?: number; // Upper bound of the retry delay
+    retryOn?: (error: unknown, failureCount: number) => boolean;
   } = {}
 ) {
   const {
@@ -23,24 +125,39 @@ export function useLocalStorageCache<T>(
     refetchOnMount = false,
     refetchOnReconnect = true,
     refetchOnWindowFocus = false,
+    retry = 0,
+    retryDelay = 1000,
+    maxRetryDelay = 30000,
+    retryOn,
     ...localStorageOptions
   } = options;
+  const { manager } = useResolvedOptions(localStorageOptions);
 
-  const [data, { setValue, removeValue, getCreatedAt, ...methods }] =
-    useLocalStorage<T | null>(key, null, {
-      ...localStorageOptions,
-      ttl: cacheTime
-    });
+  const [
+    data,
+    { setValue, removeValue, getCreatedAt, isLoading: isDecrypting, ...methods }
+  ] = useLocalStorage<T | null>(key, null, {
+    ...localStorageOptions,
+    ttl: cacheTime
+  });
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [isStale, setIsStale] = useState(false);
+  const [failureCount, setFailureCount] = useState(0);
   const fetcherRef = useRef(fetcher);
+  const retryOptionsRef = useRef<RetryOptions>({
+    retry,
+    retryDelay,
+    maxRetryDelay,
+    retryOn
+  });
 
-  // Update fetcher ref when it changes
+  // Update fetcher and retry refs when they change
   useEffect(() => {
     fetcherRef.current = fetcher;
-  }, [fetcher]);
+    retryOptionsRef.current = { retry, retryDelay, maxRetryDelay, retryOn };
+  }, [fetcher, retry, retryDelay, maxRetryDelay, retryOn]);
 
   // Check if data is stale
   useEffect(() => {
@@ -58,16 +175,32 @@ export function useLocalStorageCache<T>(
     setIsLoading(true);
     setError(null);
 
+    // Join a request another consumer already started for this key
+    const requests = getInFlightRequests(manager);
+    const existing = requests.get(key);
+    const request =
+      existing ||
+      startRequest(requests, key, fetcherRef.current, retryOptionsRef.current);
+
+    request.listeners.add(setFailureCount);
+    setFailureCount(request.failureCount);
+
     try {
-      const result = await fetcherRef.current();
-      setValue(result);
+      const result = (await request.promise) as T;
+
+      // The consumer that started the request stores the result; the others
+      // share the same store
+      if (!existing) setValue(result);
+
       setIsStale(false);
+      setFailureCount(0);
     } catch (err) {
       setError(err instanceof Error ? err : new Error("Failed to fetch data"));
     } finally {
+      request.listeners.delete(setFailureCount);
       setIsLoading(false);
     }
-  }, [isLoading, setValue]);
+  }, [isLoading, setValue, manager, key]);
 
   const invalidate = useCallback(() => {
     removeValue();
@@ -117,9 +250,10 @@ export function useLocalStorageCache<T>(
 
   return {
     data,
-    isLoading,
+    isLoading: isLoading || isDecrypting,
     error,
     isStale,
+    failureCount,
     invalidate,
     refetch,
     ...methods
@@ -177,37 +311,39 @@ export function useLocalStorageSync<T>(
 }
 
 /**
- * Hook for localStorage with compression for large data
+ * Hook for localStorage with compression for large data. Values at or above
+ * `threshold` characters are LZ-compressed into UTF-16 safe strings; smaller
+ * values are stored as-is.
  */
 export function useLocalStorageCompressed<T>(
   key: string,
   initialValue: T,
-  options: LocalStorageOptions<T> = {}
+  options: LocalStorageOptions<T> & CompressionOptions = {}
 ) {
-  const compressedOptions: LocalStorageOptions<T> = {
-    ...options,
-    serialize: (value: T) => {
-      const jsonString = JSON.stringify(value);
-      // Simple compression simulation (in real app, use a proper compression library)
-
-      return btoa(jsonString);
-    },
-    deserialize: (value: string) => {
-      try {
-        const jsonString = atob(value);
+  const { threshold, ...localStorageOptions } = options;
 
-        return JSON.parse(jsonString);
-      } catch {
-        return null;
-      }
-    }
+  const compressedOptions: LocalStorageOptions<T> = {
+    deserialize: deserializeLegacyCompressed,
+    ...localStorageOptions,
+    compress: threshold === undefined ? true : { threshold }
   };
 
   return useLocalStorage<T>(key, initialValue, compressedOptions);
 }
 
+// Entries written by earlier versions of useLocalStorageCompressed were
+// base64-encoded JSON
+function deserializeLegacyCompressed(value: string) {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return JSON.parse(atob(value));
+  }
+}
+
 /**
- * Hook for localStorage with automatic cleanup of expired items
+ * Hook for localStorage with automatic cleanup of expired items. Entries
+ * expired by the scheduler are added to `itemsRemoved`.
  */
 export function useLocalStorageAutoCleanup() {
   const [cleanupStats, setCleanupStats] = useState({
@@ -216,26 +352,21 @@ export function useLocalStorageAutoCleanup() {
     totalRuns: 0
   });
 
+  const { manager } = useLocalStorageContext();
+
   const runCleanup = useCallback(() => {
     if (typeof window === "undefined") return;
 
     let removedCount = 0;
-    const keys = Object.keys(window.localStorage);
+    const keys = manager.getAllKeys();
 
     keys.forEach((key) => {
-      try {
-        const item = window.localStorage.getItem(key);
+      // getItemMetadata ignores items that aren't in our format
+      const metadata = manager.getItemMetadata(key);
 
-        if (item) {
-          const data = JSON.parse(item);
-
-          if (data.expiresAt && Date.now() > data.expiresAt) {
-            window.localStorage.removeItem(key);
-            removedCount++;
-          }
-        }
-      } catch {
-        // Ignore items that aren't in our format
+      if (metadata?.expiresAt && Date.now() > metadata.expiresAt) {
+        manager.removeItem(key);
+        removedCount++;
       }
     });
 
@@ -246,18 +377,22 @@ export function useLocalStorageAutoCleanup() {
     }));
 
     return removedCount;
-  }, []);
+  }, [manager]);
 
-  // Auto cleanup on mount and periodically
+  // Clean up on mount; afterwards the manager's scheduler removes entries
+  // as soon as they expire
   useEffect(() => {
     runCleanup();
-
-    const interval = setInterval(() => {
-      runCleanup();
-    }, 60000); // Run every minute
-
-    return () => clearInterval(interval);
-  }, [runCleanup]);
+    manager.trackExpirations();
+
+    return manager.onExpire(() => {
+      setCleanupStats((prev) => ({
+        lastCleanup: Date.now(),
+        itemsRemoved: prev.itemsRemoved + 1,
+        totalRuns: prev.totalRuns
+      }));
+    });
+  }, [manager, runCleanup]);
 
   return {
     cleanupStats,
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from "react";
+
+import {
+  LocalStorageEventDetail,
+  StorageQuotaEstimate,
+  UseLocalStorageUsageReturn
+} from "./localStorage.types";
+import { estimateQuota } from "./localStorage.usage";
+import { LocalStorageManager } from "./localStorage.utils";
+import { useLocalStorageContext } from "./LocalStorageProvider";
+
+/**
+ * Storage usage of a manager's storage, recomputed whenever it changes in
+ * this tab or another one. `estimate` holds the origin-wide figures from
+ * navigator.storage.estimate where supported.
+ */
+export function useLocalStorageUsage(
+  options: { manager?: LocalStorageManager; top?: number } = {}
+): UseLocalStorageUsageReturn {
+  const context = useLocalStorageContext();
+  const manager = options.manager || context.manager;
+  const top = options.top ?? 10;
+  const [usage, setUsage] = useState(() => manager.getStorageUsage(top));
+  const [estimate, setEstimate] = useState<StorageQuotaEstimate | null>(null);
+
+  const refresh = useCallback(() => {
+    setUsage(manager.getStorageUsage(top));
+
+    // Resolves to null when the Storage API isn't supported
+    estimateQuota().then((result) => {
+      if (result) setEstimate(result);
+    });
+  }, [manager, top]);
+
+  useEffect(() => {
+    refresh();
+
+    const adapter = manager.getAdapter();
+    const unsubscribeManager = manager.subscribe(refresh);
+    // Foreign keys and other managers sharing the same storage
+    const unsubscribeAdapter = adapter.subscribe?.(refresh);
+
+    const handleCustomStorageChange = (
+      e: CustomEvent<LocalStorageEventDetail<unknown>>
+    ) => {
+      const { storageArea } = e.detail;
+
+      if (manager.isOwnEvent(e)) return;
+
+      if (!storageArea || storageArea === adapter.name) refresh();
+    };
+
+    if (typeof window !== "undefined") {
+      window.addEventListener(
+        "localStorageChange",
+        handleCustomStorageChange as EventListener
+      );
+    }
+
+    return () => {
+      unsubscribeManager();
+      unsubscribeAdapter?.();
+
+      if (typeof window !== "undefined") {
+        window.removeEventListener(
+          "localStorageChange",
+          handleCustomStorageChange as EventListener
+        );
+      }
+    };
+  }, [manager, refresh]);
+
+  return { ...usage, estimate, refresh };
+}
@@ -0,0 +1,98 @@
+import {
+  LocalStorageOptions,
+  UseLocalStorageMultipleOptions,
+  UseLocalStorageReturn
+} from "./localStorage.types";
+import { sessionStorageManager } from "./localStorage.utils";
+import { useLocalStorage } from "./useLocalStorage";
+import {
+  useLocalStorageArray,
+  useLocalStorageBoolean,
+  useLocalStorageMultiple,
+  useLocalStorageNumber,
+  useLocalStorageObject
+} from "./useLocalStorageAdvanced";
+
+// sessionStorage is tab-scoped, so its adapter never reports changes from
+// other tabs; components in the same tab still stay in sync
+function withSessionManager<T>(
+  options: LocalStorageOptions<T>
+): LocalStorageOptions<T> {
+  return { manager: sessionStorageManager, ...options };
+}
+
+/**
+ * Same as useLocalStorage, but persisted in sessionStorage
+ */
+export function useSessionStorage<T>(
+  key: string,
+  initialValue: T,
+  options: LocalStorageOptions<T> = {}
+): UseLocalStorageReturn<T> {
+  return useLocalStorage<T>(key, initialValue, withSessionManager(options));
+}
+
+/**
+ * Same as useLocalStorageArray, but persisted in sessionStorage
+ */
+export function useSessionStorageArray<T>(
+  key: string,
+  initialValue: T[] = [],
+  options: LocalStorageOptions<T[]> = {}
+) {
+  return useLocalStorageArray<T>(
+    key,
+    initialValue,
+    withSessionManager(options)
+  );
+}
+
+/**
+ * Same as useLocalStorageObject, but persisted in sessionStorage
+ */
+export function useSessionStorageObject<T extends Record<string, unknown>>(
+  key: string,
+  initialValue: T,
+  options: LocalStorageOptions<T> = {}
+) {
+  return useLocalStorageObject<T>(
+    key,
+    initialValue,
+    withSessionManager(options)
+  );
+}
+
+/**
+ * Same as useLocalStorageBoolean, but persisted in sessionStorage
+ */
+export function useSessionStorageBoolean(
+  key: string,
+  initialValue: boolean = false,
+  options: LocalStorageOptions<boolean> = {}
+) {
+  return useLocalStorageBoolean(key, initialValue, withSessionManager(options));
+}
+
+/**
+ * Same as useLocalStorageNumber, but persisted in sessionStorage
+ */
+export function useSessionStorageNumber(
+  key: string,
+  initialValue: number = 0,
+  options: LocalStorageOptions<number> = {}
+) {
+  return useLocalStorageNumber(key, initialValue, withSessionManager(options));
+}
+
+/**
+ * Same as useLocalStorageMultiple, but persisted in sessionStorage
+ */
+export function useSessionStorageMultiple<T extends Record<string, unknown>>(
+  keys: T,
+  options: UseLocalStorageMultipleOptions<T> = {}
+) {
+  return useLocalStorageMultiple<T>(keys, {
+    manager: sessionStorageManager,
+    ...options
+  });
+}